@@ -0,0 +1,173 @@
+// End-of-game superlatives, computed once from the game archive when the game reaches FINAL
+// Pure so it can be tested without a room; every award lists all tied players
+
+import type { ArchivedAnswer, ArchivedRound, Award } from "./protocol";
+import { roundLabel } from "./recap";
+import { namedInPrompt } from "./targets";
+
+interface AwardPlayer {
+  id: string;
+  name: string;
+  score: number;
+  isVoyeur?: boolean;
+}
+
+type AwardWinner = Award["winners"][number];
+
+const plural = (count: number, word: string) => `${count} ${word}${count !== 1 ? "s" : ""}`;
+
+// Answers with the most votes in a round, or none if nobody got a vote (same rule as endVoting)
+function roundWinners(round: ArchivedRound): ArchivedAnswer[] {
+  const maxVotes = Math.max(0, ...round.answers.map(a => a.votes));
+  return maxVotes > 0 ? round.answers.filter(a => a.votes === maxVotes) : [];
+}
+
+// Everyone tied for the highest count, if anyone counted at all
+function leaders(counts: Map<string, number>, players: Map<string, AwardWinner>): { winners: AwardWinner[]; count: number } | null {
+  const best = Math.max(0, ...counts.values());
+  if (best === 0) return null;
+  const winners = [...counts.entries()]
+    .filter(([id, count]) => count === best && players.has(id))
+    .map(([id]) => players.get(id)!);
+  return winners.length > 0 ? { winners, count: best } : null;
+}
+
+function mostRoasted(archive: ArchivedRound[], players: Map<string, AwardWinner>): Award | null {
+  const counts = new Map<string, number>();
+  for (const player of players.values()) {
+    counts.set(player.playerId, archive.filter(r => namedInPrompt(r.prompt, player.name)).length);
+  }
+  const result = leaders(counts, players);
+  return result && {
+    id: "most-roasted",
+    title: "Most Roasted",
+    emoji: "🔥",
+    winners: result.winners,
+    detail: `Named in ${plural(result.count, "prompt")}`,
+  };
+}
+
+// Archive entries grouped by round; a duel round has one entry per matchup
+function byRound(archive: ArchivedRound[]): ArchivedRound[][] {
+  const rounds: ArchivedRound[][] = [];
+  for (const entry of archive) {
+    const last = rounds[rounds.length - 1];
+    if (last && last[0].round === entry.round) {
+      last.push(entry);
+    } else {
+      rounds.push([entry]);
+    }
+  }
+  return rounds;
+}
+
+// Consecutive round wins; rounds nobody got a vote in are skipped rather than breaking a streak
+// Winning any matchup wins a duel round, and players without a matchup in it keep their streak
+function bestStreak(archive: ArchivedRound[], players: Map<string, AwardWinner>): Award | null {
+  const current = new Map<string, number>();
+  const best = new Map<string, number>();
+  for (const entries of byRound(archive)) {
+    const winnerIds = new Set(entries.flatMap(roundWinners).map(a => a.playerId));
+    if (winnerIds.size === 0) continue;
+    const contenders = entries[0].matchup !== undefined
+      ? new Set(entries.flatMap(r => r.answers.map(a => a.playerId)))
+      : new Set(players.keys());
+    for (const id of players.keys()) {
+      if (!contenders.has(id)) continue;
+      const streak = winnerIds.has(id) ? (current.get(id) ?? 0) + 1 : 0;
+      current.set(id, streak);
+      best.set(id, Math.max(best.get(id) ?? 0, streak));
+    }
+  }
+  const result = leaders(best, players);
+  // A single win isn't a streak
+  return result && result.count >= 2 ? {
+    id: "best-streak",
+    title: "Best Streak",
+    emoji: "⚡",
+    winners: result.winners,
+    detail: `Won ${result.count} rounds in a row`,
+  } : null;
+}
+
+// Voted most often for whoever ended up winning the game
+function kingmaker(archive: ArchivedRound[], players: Map<string, AwardWinner>, gameWinnerIds: Set<string>): Award | null {
+  const counts = new Map<string, number>();
+  for (const answer of archive.flatMap(r => r.answers)) {
+    if (!gameWinnerIds.has(answer.playerId)) continue;
+    for (const voter of answer.voters) {
+      counts.set(voter.playerId, (counts.get(voter.playerId) ?? 0) + 1);
+    }
+  }
+  const result = leaders(counts, players);
+  const winnerNames = [...gameWinnerIds].map(id => players.get(id)?.name).filter(Boolean).join(" & ");
+  return result && {
+    id: "kingmaker",
+    title: "Kingmaker",
+    emoji: "👑",
+    winners: result.winners,
+    detail: `Voted for ${winnerNames} ${plural(result.count, "time")}`,
+  };
+}
+
+// Outright round wins with their share of the votes they could have got (authors can't vote for themselves)
+function outrightWins(archive: ArchivedRound[]) {
+  return archive.flatMap(round => {
+    const winners = roundWinners(round);
+    if (winners.length !== 1) return [];
+    const winner = winners[0];
+    const voterIds = new Set(round.answers.flatMap(a => a.voters.map(v => v.playerId)));
+    voterIds.delete(winner.playerId);
+    const runnerUpVotes = Math.max(0, ...round.answers.filter(a => a !== winner).map(a => a.votes));
+    return [{
+      round,
+      winner,
+      voterCount: voterIds.size,
+      share: winner.votes / voterIds.size,
+      margin: winner.votes - runnerUpVotes,
+    }];
+  });
+}
+
+function mostUnanimous(archive: ArchivedRound[], players: Map<string, AwardWinner>): Award | null {
+  const wins = outrightWins(archive).filter(w => players.has(w.winner.playerId));
+  if (wins.length === 0) return null;
+  // Highest share first, then the bigger crowd; earlier rounds win exact ties
+  const best = wins.reduce((a, b) => b.share > a.share || (b.share === a.share && b.winner.votes > a.winner.votes) ? b : a);
+  return {
+    id: "most-unanimous",
+    title: "Most Unanimous Win",
+    emoji: "🤝",
+    winners: [players.get(best.winner.playerId)!],
+    detail: `${best.winner.votes} of ${best.voterCount} votes in ${roundLabel(best.round).toLowerCase()} for "${best.winner.answer}"`,
+  };
+}
+
+function biggestShutout(archive: ArchivedRound[], players: Map<string, AwardWinner>): Award | null {
+  const wins = outrightWins(archive).filter(w => players.has(w.winner.playerId));
+  if (wins.length === 0) return null;
+  const best = wins.reduce((a, b) => b.margin > a.margin ? b : a);
+  return {
+    id: "biggest-shutout",
+    title: "Biggest Shutout",
+    emoji: "🧹",
+    winners: [players.get(best.winner.playerId)!],
+    detail: `Won ${roundLabel(best.round).toLowerCase()} by ${plural(best.margin, "vote")} with "${best.winner.answer}"`,
+  };
+}
+
+export function computeAwards(archive: ArchivedRound[], players: AwardPlayer[]): Award[] {
+  // Watchers who never scored sat the game out
+  const inGame = players.filter(p => !p.isVoyeur || p.score > 0);
+  const byId = new Map(inGame.map(p => [p.id, { playerId: p.id, name: p.name }]));
+  const topScore = Math.max(0, ...inGame.map(p => p.score));
+  const gameWinnerIds = new Set(topScore > 0 ? inGame.filter(p => p.score === topScore).map(p => p.id) : []);
+
+  return [
+    mostRoasted(archive, byId),
+    bestStreak(archive, byId),
+    kingmaker(archive, byId, gameWinnerIds),
+    mostUnanimous(archive, byId),
+    biggestShutout(archive, byId),
+  ].filter((award): award is Award => award !== null);
+}
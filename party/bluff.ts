@@ -0,0 +1,106 @@
+// Bluff mode: each round asks a trivia question with a real answer from the local fact pack
+// Players write lies, the truth is shuffled in among them, and points go for finding it and for fooling others
+// The truth sits in answerOrder under TRUTH_ID, so voting and the reveal treat it like any other answer
+
+import type { PointsBreakdown } from "./scoring";
+
+// Stands in for a playerId in answerOrder and votes; can't collide with a connection id (UUIDs)
+export const TRUTH_ID = "__truth__";
+
+export interface BluffFact {
+  question: string; // "_____" marks where the answer goes
+  answer: string;
+}
+
+export const BLUFF_POINTS = {
+  truth: 200, // For voting for the real answer
+  perPlayerFooled: 100, // For each player who voted for your lie
+};
+
+// Family-friendly, so the pack fits every content rating
+export const BLUFF_FACTS: BluffFact[] = [
+  { question: "The national animal of Scotland is the _____.", answer: "Unicorn" },
+  { question: "A group of flamingos is called a _____.", answer: "Flamboyance" },
+  { question: "Before it was a toy, Play-Doh was sold as _____.", answer: "Wallpaper cleaner" },
+  { question: "The dot over a lowercase \"i\" is called a _____.", answer: "Tittle" },
+  { question: "Wombats are the only animals known to produce _____-shaped poop.", answer: "Cube" },
+  { question: "The first thing ever sold on eBay was a broken _____.", answer: "Laser pointer" },
+  { question: "Bubble wrap was originally invented to be used as _____.", answer: "Wallpaper" },
+  { question: "A day on Venus is longer than a _____ on Venus.", answer: "Year" },
+  { question: "Octopuses have _____ hearts.", answer: "Three" },
+  { question: "The inventor of the Pringles can was buried in _____.", answer: "A Pringles can" },
+  { question: "In Switzerland it is illegal to own just one _____.", answer: "Guinea pig" },
+  { question: "The plastic tip on the end of a shoelace is called an _____.", answer: "Aglet" },
+  { question: "Sea otters hold _____ while they sleep so they don't drift apart.", answer: "Hands" },
+  { question: "Honey found in ancient Egyptian tombs was still _____.", answer: "Edible" },
+  { question: "A jiffy is an actual unit of _____.", answer: "Time" },
+  { question: "The Eiffel Tower can grow about 15 cm taller in the _____.", answer: "Summer" },
+  { question: "Scotland has over 400 words for _____.", answer: "Snow" },
+  { question: "The shortest war in history lasted about _____ minutes.", answer: "38" },
+  { question: "Bananas are naturally slightly _____.", answer: "Radioactive" },
+  { question: "The fear of long words is called _____.", answer: "Hippopotomonstrosesquippedaliophobia" },
+  { question: "Astronauts can't _____ in space because there's no gravity to move the bubbles.", answer: "Burp" },
+  { question: "The first oranges weren't orange, they were _____.", answer: "Green" },
+  { question: "A baby puffin is called a _____.", answer: "Puffling" },
+  { question: "Humans share about 60% of their DNA with _____.", answer: "Bananas" },
+  { question: "Nintendo was founded in 1889 as a company selling _____.", answer: "Playing cards" },
+  { question: "A group of crows is called a _____.", answer: "Murder" },
+  { question: "Sharks existed before _____.", answer: "Trees" },
+  { question: "The hashtag symbol is technically called an _____.", answer: "Octothorpe" },
+  { question: "Koalas sleep up to _____ hours a day.", answer: "22" },
+];
+
+// A fact not yet asked this game, or any fact once the pack runs out
+export function pickFact(facts: BluffFact[], askedQuestions: string[]): BluffFact {
+  const asked = new Set(askedQuestions);
+  const fresh = facts.filter(f => !asked.has(f.question));
+  const pool = fresh.length > 0 ? fresh : facts;
+  return pool[Math.floor(Math.random() * pool.length)];
+}
+
+// Case, spacing, punctuation and a leading article don't make a lie different from the truth
+function comparable(text: string): string {
+  return text
+    .normalize("NFKC")
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s]/gu, "")
+    .trim()
+    .replace(/^(the|a|an)\s+/, "")
+    .replace(/\s+/g, "");
+}
+
+// True if a submitted lie is really the answer, which would give the truth away
+export function isTheTruth(lie: string, fact: BluffFact): boolean {
+  return comparable(lie) === comparable(fact.answer);
+}
+
+interface BluffScoringInput {
+  voteCounts: Record<string, number>; // Counted votes per lie author (votes for the truth excluded)
+  truthFinderIds: string[]; // Counted voters who picked the truth
+  players: { id: string }[]; // Everyone counted this round
+}
+
+// Points for every player who fooled someone or found the truth
+// Fixed whatever the host's scoring rules say; the lobby hides them in bluff mode
+// Fooled votes go in votes/votePoints so explainPoints and the reveal read them like roast votes
+export function scoreBluffRound({ voteCounts, truthFinderIds, players }: BluffScoringInput): PointsBreakdown[] {
+  const finders = new Set(truthFinderIds);
+  return players
+    .filter(p => (voteCounts[p.id] ?? 0) > 0 || finders.has(p.id))
+    .map((p) => {
+      const votes = voteCounts[p.id] ?? 0;
+      const votePoints = votes * BLUFF_POINTS.perPlayerFooled;
+      const truthPoints = finders.has(p.id) ? BLUFF_POINTS.truth : 0;
+      return {
+        playerId: p.id,
+        votes,
+        votePoints,
+        winnerBonus: 0,
+        streakBonus: 0,
+        catchUpBonus: 0,
+        truthPoints,
+        multiplier: 1,
+        total: votePoints + truthPoints,
+      };
+    });
+}
@@ -0,0 +1,53 @@
+// Duel mode: every player answers two prompts, each shared with exactly one other player
+// Voting then runs one matchup at a time, and only players outside the matchup vote on it
+// main.ts loads each matchup into currentPrompt/answers, so voting and the reveal work as in roast mode
+
+import type { PromptSource } from "./protocol";
+
+export const MIN_DUEL_PLAYERS = 3; // Someone has to be left over to vote on each matchup
+
+// Shown in WRITING while each player works on their own prompts
+export const DUEL_WRITING_PROMPT = "Head to head! Answer both of your prompts.";
+
+export interface Matchup {
+  prompt: string;
+  source: PromptSource;
+  playerIds: string[]; // Always two
+  answers: Record<string, string>; // By playerId, as they come in
+  winnerIds?: string[]; // Set once the matchup is scored; empty if nobody got a vote
+}
+
+// A player's share of the round, sent to them alone
+export interface DuelPrompt {
+  matchupId: number; // Index into the round's matchups
+  prompt: string;
+  answered: boolean;
+}
+
+// Pair players in a ring: player i meets player i+1 and the last meets the first,
+// so everyone answers exactly two prompts and each prompt goes to exactly two players
+// The caller shuffles playerIds and passes at least one prompt per player
+// Two players would meet twice with nobody left to vote, so fewer than MIN_DUEL_PLAYERS get no matchups
+export function planMatchups(playerIds: string[], prompts: { prompt: string; source: PromptSource }[]): Matchup[] {
+  if (playerIds.length < MIN_DUEL_PLAYERS) return [];
+  return playerIds.map((playerId, i) => ({
+    prompt: prompts[i].prompt,
+    source: prompts[i].source,
+    playerIds: [playerId, playerIds[(i + 1) % playerIds.length]],
+    answers: {},
+  }));
+}
+
+export function duelPromptsFor(matchups: Matchup[], playerId: string): DuelPrompt[] {
+  return matchups.flatMap((matchup, matchupId) =>
+    matchup.playerIds.includes(playerId)
+      ? [{ matchupId, prompt: matchup.prompt, answered: matchup.answers[playerId] !== undefined }]
+      : []
+  );
+}
+
+// True once a player has answered every prompt they were given (false if they were given none)
+export function hasAnsweredAll(matchups: Matchup[], playerId: string): boolean {
+  const prompts = duelPromptsFor(matchups, playerId);
+  return prompts.length > 0 && prompts.every(p => p.answered);
+}
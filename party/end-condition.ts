@@ -0,0 +1,131 @@
+// When a game ends: after a number of rounds, after a wall-clock length, at a target score, or never
+// startRound and refillPromptQueue both ask here, so "is this the last round?" has one answer
+
+export type EndCondition =
+  | { type: "rounds"; rounds: number }
+  | { type: "timed"; minutes: number } // The round in progress when time runs out is the last one
+  | { type: "score"; target: number } // Ends after the round in which someone reaches the target
+  | { type: "endless" };
+
+export const MIN_ROUNDS = 1;
+export const MAX_ROUNDS = 50;
+export const MIN_GAME_MINUTES = 5;
+export const MAX_GAME_MINUTES = 120;
+export const MIN_TARGET_SCORE = 500;
+export const MAX_TARGET_SCORE = 20000;
+
+// Where the game is, as far as ending it is concerned
+export interface GameProgress {
+  round: number; // Rounds started so far
+  startedAt: number | null; // When round 1 started (epoch ms)
+  now: number;
+  topScore: number;
+}
+
+// Whole number in [min, max] from a number or numeric string, or null
+function parseWholeNumber(input: unknown, min: number, max: number): number | null {
+  const parsed = typeof input === "string" && /^\d+$/.test(input) ? parseInt(input, 10) : input;
+  if (typeof parsed !== "number" || !Number.isInteger(parsed) || parsed < min || parsed > max) {
+    return null;
+  }
+  return parsed;
+}
+
+// The legacy roundLimit setting: a round count within bounds, or endless for anything else
+export function parseRoundLimit(input: unknown): number | null {
+  return parseWholeNumber(input, MIN_ROUNDS, MAX_ROUNDS);
+}
+
+export function roundsCondition(roundLimit: number | null): EndCondition {
+  return roundLimit === null ? { type: "endless" } : { type: "rounds", rounds: roundLimit };
+}
+
+// Round limit shown alongside the round number, for rounds mode only
+export function roundLimitOf(condition: EndCondition): number | null {
+  return condition.type === "rounds" ? condition.rounds : null;
+}
+
+// Returns null for anything that isn't a complete, in-bounds condition, so the caller keeps what it had
+export function parseEndCondition(input: unknown): EndCondition | null {
+  if (typeof input !== "object" || input === null) return null;
+  const data = input as Record<string, unknown>;
+  switch (data.type) {
+    case "rounds": {
+      const rounds = parseWholeNumber(data.rounds, MIN_ROUNDS, MAX_ROUNDS);
+      return rounds === null ? null : { type: "rounds", rounds };
+    }
+    case "timed": {
+      const minutes = parseWholeNumber(data.minutes, MIN_GAME_MINUTES, MAX_GAME_MINUTES);
+      return minutes === null ? null : { type: "timed", minutes };
+    }
+    case "score": {
+      const target = parseWholeNumber(data.target, MIN_TARGET_SCORE, MAX_TARGET_SCORE);
+      return target === null ? null : { type: "score", target };
+    }
+    case "endless":
+      return { type: "endless" };
+    default:
+      return null;
+  }
+}
+
+// Wall-clock end of a timed game, or null for other modes or before it starts
+export function gameEndsAt(condition: EndCondition, startedAt: number | null): number | null {
+  return condition.type === "timed" && startedAt !== null ? startedAt + condition.minutes * 60_000 : null;
+}
+
+// True if the round in progress is known to be the last
+// Score games can't know in advance, since it depends on this round's votes
+export function isFinalRound(condition: EndCondition, progress: GameProgress): boolean {
+  switch (condition.type) {
+    case "rounds":
+      return progress.round >= condition.rounds;
+    case "timed": {
+      const endsAt = gameEndsAt(condition, progress.startedAt);
+      return endsAt !== null && progress.now >= endsAt;
+    }
+    default:
+      return false;
+  }
+}
+
+// True once no further round should start
+export function isGameOver(condition: EndCondition, progress: GameProgress): boolean {
+  if (progress.round === 0) return false;
+  if (condition.type === "score") return progress.topScore >= condition.target;
+  return isFinalRound(condition, progress);
+}
+
+// Most rounds that could still start; Infinity when the mode doesn't count rounds
+export function maxRoundsLeft(condition: EndCondition, progress: GameProgress): number {
+  if (isGameOver(condition, progress)) return 0;
+  return condition.type === "rounds" ? condition.rounds - progress.round : Infinity;
+}
+
+// How the game's length reads in the LLM system prompt
+export function describeRound(roundNumber: number, condition: EndCondition): string {
+  switch (condition.type) {
+    case "rounds":
+      return `This is round ${roundNumber} of ${condition.rounds}.`;
+    case "timed":
+      return `This is round ${roundNumber} of a ${condition.minutes}-minute game.`;
+    case "score":
+      return `This is round ${roundNumber}. The first player to ${condition.target} points wins.`;
+    case "endless":
+      return `This is round ${roundNumber}.`;
+  }
+}
+
+// Short label for the lobby, e.g. "5 rounds" or "First to 2000 points"
+export function describeEndCondition(condition: EndCondition): string {
+  switch (condition.type) {
+    case "rounds":
+      return `${condition.rounds} round${condition.rounds === 1 ? "" : "s"}`;
+    case "timed":
+      return `${condition.minutes} minutes`;
+    case "score":
+      return `First to ${condition.target} points`;
+    case "endless":
+      return "Endless";
+  }
+}
@@ -0,0 +1,11 @@
+// What kind of round the game plays, chosen in LOBBY
+// roast: everyone answers the same prompt; bluff: lies to a real fact (party/bluff.ts);
+// duel: two prompts each, shared with one other player (party/duel.ts)
+
+export type GameMode = "roast" | "bluff" | "duel";
+
+export const GAME_MODES: GameMode[] = ["roast", "bluff", "duel"];
+
+export function parseGameMode(input: unknown): GameMode | null {
+  return GAME_MODES.includes(input as GameMode) ? (input as GameMode) : null;
+}
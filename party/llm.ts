@@ -0,0 +1,166 @@
+// LLM provider layer used for prompt generation and chat summarization
+// Selected from env vars so the server and scripts/test-prompts.ts share one configuration:
+//   LLM_PROVIDER  "xai" | "openai" | "stub" (defaults to "xai" when XAI_API_KEY is set)
+//   LLM_BASE_URL  OpenAI-compatible base URL, e.g. http://localhost:11434/v1 for Ollama
+//   LLM_API_KEY   API key (falls back to XAI_API_KEY for xai; optional for local servers)
+//   LLM_MODEL     Model name override
+
+export interface ChatCompletionMessage {
+  role: "system" | "user" | "assistant";
+  content: string;
+}
+
+export interface CompletionOptions {
+  temperature?: number;
+  maxTokens?: number;
+  signal?: AbortSignal;
+}
+
+export interface LLMProvider {
+  // Human-readable name for logs
+  readonly name: string;
+  // Resolves with the trimmed completion text; rejects on network or API errors
+  complete(messages: ChatCompletionMessage[], options?: CompletionOptions): Promise<string>;
+}
+
+const XAI_BASE_URL = "https://api.x.ai/v1";
+const XAI_DEFAULT_MODEL = "grok-4-fast-non-reasoning";
+const OPENAI_BASE_URL = "https://api.openai.com/v1";
+const OPENAI_DEFAULT_MODEL = "gpt-4o-mini";
+
+interface OpenAICompatibleConfig {
+  name: string;
+  baseUrl: string;
+  model: string;
+  apiKey?: string;
+}
+
+// Any endpoint speaking the OpenAI chat completions API (xAI, OpenAI, Ollama, llama.cpp, vLLM...)
+export function createOpenAICompatibleProvider(config: OpenAICompatibleConfig): LLMProvider {
+  const url = `${config.baseUrl.replace(/\/+$/, "")}/chat/completions`;
+
+  return {
+    name: `${config.name}:${config.model}`,
+    async complete(messages, options = {}) {
+      const headers: Record<string, string> = { "Content-Type": "application/json" };
+      // Local servers usually run without auth
+      if (config.apiKey) {
+        headers["Authorization"] = `Bearer ${config.apiKey}`;
+      }
+
+      const response = await fetch(url, {
+        method: "POST",
+        headers,
+        signal: options.signal,
+        body: JSON.stringify({
+          model: config.model,
+          messages,
+          temperature: options.temperature,
+          max_tokens: options.maxTokens,
+        }),
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw new Error(`${config.name} API error: ${response.status} ${errorText}`);
+      }
+
+      const data = await response.json();
+      return (data.choices?.[0]?.message?.content || "").trim();
+    },
+  };
+}
+
+const STUB_PROMPTS = [
+  "What {name} is secretly hiding in their closet",
+  "The real reason {name} is always late",
+  "{name}'s most embarrassing search history entry",
+  "What {name} would be famous for on reality TV",
+  "The worst advice {name} has ever given",
+];
+
+// Small stable hash so the stub picks the same output for the same input
+function hashString(input: string): number {
+  let hash = 0;
+  for (let i = 0; i < input.length; i++) {
+    hash = (hash * 31 + input.charCodeAt(i)) >>> 0;
+  }
+  return hash;
+}
+
+// Deterministic offline provider for local dev, demos and tests (no network)
+// Answers prompt requests with a templated roast of a listed player, and anything else with NONE
+export function createStubProvider(): LLMProvider {
+  return {
+    name: "stub",
+    async complete(messages) {
+      const userContent = messages.filter(m => m.role === "user").map(m => m.content).join("\n");
+      const namesMatch = userContent.match(/<player_names>(.*)<\/player_names>/);
+      if (!namesMatch) {
+        return "NONE";
+      }
+
+      // Roast the requested targets when the server picked some, like a real model would
+      const targetsMatch = userContent.match(/<targets>.*: (.*)<\/targets>/);
+      const names = (targetsMatch ?? namesMatch)[1].split(",").map(n => n.trim()).filter(n => n.length > 0);
+      if (names.length === 0) {
+        return "NONE";
+      }
+      // Batch requests ask for "Generate N unique prompts"
+      const countMatch = userContent.match(/Generate (\d+) unique prompts?/);
+      const count = Math.min(countMatch ? parseInt(countMatch[1], 10) : 1, STUB_PROMPTS.length);
+      const hash = hashString(userContent);
+      const lines: string[] = [];
+      for (let i = 0; i < count; i++) {
+        const template = STUB_PROMPTS[(hash + i) % STUB_PROMPTS.length];
+        // Targets are asked for in order, one prompt each
+        const name = targetsMatch ? names[i % names.length] : names[(hash + i) % names.length];
+        lines.push(template.replace("{name}", name));
+      }
+      return lines.join("\n");
+    },
+  };
+}
+
+// Build the configured provider, or null when none is configured (callers use hardcoded fallbacks)
+export function createLLMProvider(env: Record<string, string | undefined>): LLMProvider | null {
+  const providerName = (env.LLM_PROVIDER || (env.XAI_API_KEY ? "xai" : "")).toLowerCase();
+
+  switch (providerName) {
+    case "": {
+      return null;
+    }
+
+    case "xai": {
+      const apiKey = env.LLM_API_KEY || env.XAI_API_KEY || "";
+      if (!apiKey) {
+        console.error("[LLM] xai provider selected but no LLM_API_KEY or XAI_API_KEY set");
+        return null;
+      }
+      return createOpenAICompatibleProvider({
+        name: "xai",
+        baseUrl: env.LLM_BASE_URL || XAI_BASE_URL,
+        model: env.LLM_MODEL || XAI_DEFAULT_MODEL,
+        apiKey,
+      });
+    }
+
+    case "openai": {
+      return createOpenAICompatibleProvider({
+        name: "openai",
+        baseUrl: env.LLM_BASE_URL || OPENAI_BASE_URL,
+        model: env.LLM_MODEL || OPENAI_DEFAULT_MODEL,
+        apiKey: env.LLM_API_KEY,
+      });
+    }
+
+    case "stub": {
+      return createStubProvider();
+    }
+
+    default: {
+      console.error(`[LLM] Unknown LLM_PROVIDER "${providerName}", using hardcoded prompts`);
+      return null;
+    }
+  }
+}
@@ -0,0 +1,99 @@
+// Player names: cleaned up on join, and compared by how they look rather than by their code points
+// Two names with the same nameKey are hard to tell apart on screen, so they count as duplicates
+
+export const MAX_NAME_LENGTH = 20;
+
+// Reserved for the game itself or for staff; only a validated admin may take them
+// "someone" is what fallback prompts say when no name is usable
+const RESERVED_NAMES = ["admin", "administrator", "moderator", "mod", "system", "server", "shtus", "everyone", "someone"];
+
+// Characters that render as nothing: format characters (zero-width, bidi controls, BOM), controls,
+// variation selectors, and the blank "letters" used to fake an empty or padded name
+const INVISIBLE_CHARS = /[\p{Cf}\p{Cc}\u034F\u115F\u1160\u2800\u3164\uFE00-\uFE0F\uFFA0]/gu;
+
+// Cyrillic and Greek letters that imitate Latin ones
+// Folded before lowercasing, since e.g. Greek "Ν" imitates "N" but its lowercase "ν" imitates "v"
+const CONFUSABLES: Record<string, string> = {
+  "А": "A", "В": "B", "Е": "E", "К": "K", "М": "M", "Н": "H", "О": "O", "Р": "P", "С": "C", "Т": "T",
+  "У": "Y", "Х": "X", "І": "I", "Ј": "J", "Ѕ": "S", "Ӏ": "I",
+  "а": "a", "е": "e", "о": "o", "р": "p", "с": "c", "у": "y", "х": "x", "і": "i", "ј": "j", "ѕ": "s",
+  "ԁ": "d", "һ": "h", "ԛ": "q", "ԝ": "w", "ӏ": "l",
+  "Α": "A", "Β": "B", "Ε": "E", "Ζ": "Z", "Η": "H", "Ι": "I", "Κ": "K", "Μ": "M", "Ν": "N", "Ο": "O",
+  "Ρ": "P", "Τ": "T", "Υ": "Y", "Χ": "X",
+  "α": "a", "ι": "i", "κ": "k", "ν": "v", "ο": "o", "ρ": "p", "υ": "u", "χ": "x",
+  "ı": "i", "ɡ": "g", "օ": "o",
+};
+
+// Latin letters and digits that pass for each other once lowercased
+const LOOKALIKES: [RegExp, string][] = [
+  [/rn/g, "m"],
+  [/vv/g, "w"],
+  [/[il1|]/g, "l"],
+  [/0/g, "o"],
+];
+
+// Cut to a number of characters without splitting a surrogate pair
+function truncate(text: string, length: number): string {
+  return Array.from(text).slice(0, length).join("");
+}
+
+// The name as it will be stored and shown: NFKC (so fullwidth and styled letters become plain ones),
+// no invisible characters, single spaces, at most MAX_NAME_LENGTH characters
+export function normalizeName(input: string): string {
+  const cleaned = input
+    .normalize("NFKC")
+    .replace(/\s+/g, " ")
+    .replace(INVISIBLE_CHARS, "")
+    .replace(/(\p{M}{2})\p{M}+/gu, "$1") // Stacked combining marks spill over neighbouring names
+    .replace(/ +/g, " ")
+    .trim();
+  return truncate(cleaned, MAX_NAME_LENGTH).trim();
+}
+
+// What a name looks like, for duplicate and reserved-name checks only (never shown)
+// Latin accents, case, lookalike letters, spaces and punctuation are all folded away
+export function nameKey(name: string): string {
+  const folded = Array.from(normalizeName(name).normalize("NFD").replace(/[\u0300-\u036F]/g, ""))
+    .map(char => CONFUSABLES[char] ?? char)
+    .join("")
+    .toLowerCase();
+  const key = LOOKALIKES
+    .reduce((text, [pattern, replacement]) => text.replace(pattern, replacement), folded)
+    .replace(/[^\p{L}\p{M}\p{N}]/gu, "");
+  // Names without letters or digits (emoji, symbols) are compared as typed
+  return key || folded;
+}
+
+export function isReservedName(name: string): boolean {
+  const key = nameKey(name);
+  return RESERVED_NAMES.some(reserved => nameKey(reserved) === key);
+}
+
+export type NameCheck = { ok: true; name: string } | { ok: false; error: string };
+
+// Clean a requested name and check it can be used at all; uniqueness is up to uniqueName
+export function validateName(input: unknown, allowReserved: boolean = false): NameCheck {
+  const name = typeof input === "string" ? normalizeName(input) : "";
+  if (name.length === 0) {
+    return { ok: false, error: "Please enter a name." };
+  }
+  if (!allowReserved && isReservedName(name)) {
+    return { ok: false, error: `"${name}" is reserved. Please pick another name.` };
+  }
+  return { ok: true, name };
+}
+
+// The name itself if no other name looks like it, otherwise the name with the lowest free " N" suffix
+export function uniqueName(name: string, otherNames: string[]): string {
+  const taken = new Set(otherNames.map(nameKey));
+  if (!taken.has(nameKey(name))) {
+    return name;
+  }
+  for (let suffix = 2; ; suffix++) {
+    const suffixStr = ` ${suffix}`;
+    const candidate = `${truncate(name, MAX_NAME_LENGTH - suffixStr.length).trim()}${suffixStr}`;
+    if (!taken.has(nameKey(candidate))) {
+      return candidate;
+    }
+  }
+}
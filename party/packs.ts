@@ -0,0 +1,165 @@
+// Prompt packs: the decks fallback prompts are drawn from
+// A pack can be built in or uploaded by the host in LOBBY
+
+import {
+  classifyContentRating,
+  isAllowedAtRating,
+  parseContentRating,
+  validateExactQuestion,
+  type ContentRating,
+} from "./prompts";
+
+export interface TaggedPrompt {
+  text: string;
+  rating: ContentRating; // Lowest room rating this prompt can be shown at
+}
+
+export interface PromptPack {
+  id: string;
+  name: string;
+  prompts: TaggedPrompt[];
+  packOnly: boolean; // Skip AI generation and only use this pack's prompts
+}
+
+const CUSTOM_PACK_ID = "custom";
+export const MIN_PACK_PROMPTS = 3; // Enough for the shortest round limit
+const MAX_PACK_PROMPTS = 200;
+export const MAX_PACK_PROMPT_LENGTH = 200; // Same cap as AI-generated prompts
+const MAX_PACK_NAME_LENGTH = 50;
+
+function tagPrompts(rating: ContentRating, texts: string[]): TaggedPrompt[] {
+  return texts.map(text => ({ text, rating }));
+}
+
+// Hardcoded prompts - the default pack, and fallback when AI unavailable
+// {name} will be replaced with a random player's name (for roasting)
+// Tagged by rating so family and PG-13 rooms only draw what they allow
+export const HARDCODED_PROMPTS: TaggedPrompt[] = [
+  // Cheeky but not explicit
+  ...tagPrompts("pg13", [
+    "What's in {name}'s browser history?",
+    "The real reason {name}'s ex dumped them",
+    "What {name} is definitely lying about on their dating profile",
+    "What {name}'s mugshot would be for",
+    "What {name} is secretly doing at 2am on a Tuesday",
+    "{name}'s most regrettable drunk text",
+    "If {name}'s therapist broke confidentiality, the headline would be...",
+    "The thing {name} does in the shower that takes so long",
+    "What {name} lies about to their doctor",
+    "{name}'s rejected Tinder bio that's too honest",
+    "What {name}'s roommate pretends not to hear",
+    "The crime {name} would commit if it was legal for a day",
+    "What {name} actually does when 'working from home'",
+    "The text {name} would send their ex with no shame",
+    "The thing {name} googled that would end their career",
+    "What {name} would confess if blackout drunk",
+    "The worst pickup line that would actually work on {name}",
+    "What {name}'s screen time report is hiding",
+  ]),
+
+  // Adults only
+  ...tagPrompts("adult", [
+    "If {name} had an OnlyFans, what would their niche be?",
+    "Describe {name}'s worst hookup in three words",
+    "The thing {name} does alone that would ruin their reputation",
+    "What {name} ACTUALLY thinks about during sex",
+    "What drug would {name} be and why?",
+    "The sex toy {name} definitely owns but won't admit to",
+    "What {name}'s safe word would be",
+    "The porn category {name} is too embarrassed to admit they watch",
+    "{name}'s body count... really",
+    "{name}'s most unhinged horny thought",
+    "If {name}'s vibrator could talk, it would say...",
+    "The worst thing {name} whispers during sex",
+    "The worst thing {name} says right after an orgasm",
+    "What {name}'s neighbors definitely heard last night",
+  ]),
+];
+
+// Work-safe prompts for office parties, family game night, etc.
+export const SFW_PROMPTS: TaggedPrompt[] = tagPrompts("family", [
+  "What {name} is secretly hoarding in their desk drawer",
+  "The real reason {name} is always five minutes late",
+  "{name}'s most overused phrase in meetings",
+  "What {name} would be famous for on a reality TV show",
+  "The worst advice {name} has ever confidently given",
+  "What {name}'s houseplants say about them behind their back",
+  "{name}'s secret talent nobody asked for",
+  "The app {name} would be embarrassed to show their screen time for",
+  "What {name} orders when nobody is watching",
+  "The conspiracy theory {name} half believes",
+  "What {name}'s autobiography would be called",
+  "The snack {name} would betray everyone here for",
+  "{name}'s most dramatic reaction to a minor inconvenience",
+  "What {name} googles at 2am",
+  "The song {name} sings in the car when they think nobody can hear",
+  "What {name} would do with a free day and no phone",
+  "{name}'s villain origin story",
+  "The hobby {name} quit after buying all the gear",
+  "What {name} thinks their spirit animal is vs. what it actually is",
+  "The most {name} thing to bring to a potluck",
+]);
+
+export const DEFAULT_PACK_ID = "classic";
+
+export const BUILT_IN_PACKS: PromptPack[] = [
+  { id: DEFAULT_PACK_ID, name: "Classic (adult)", prompts: HARDCODED_PROMPTS, packOnly: false },
+  { id: "sfw", name: "Work safe", prompts: SFW_PROMPTS, packOnly: false },
+  { id: "sfw-only", name: "Work safe (no AI)", prompts: SFW_PROMPTS, packOnly: true },
+];
+
+// Prompt texts from the pack that a room at this rating may use
+// Falls back to the work-safe list if the pack has nothing tame enough
+export function promptsForRating(pack: PromptPack, rating: ContentRating): string[] {
+  const allowed = pack.prompts.filter(p => isAllowedAtRating(p.rating, rating));
+  return (allowed.length > 0 ? allowed : SFW_PROMPTS).map(p => p.text);
+}
+
+// Validate a host-uploaded pack
+// Accepts { name, prompts, packOnly } where prompts is an array of strings or
+// { text, rating } objects (JSON upload), or newline-separated text (text upload,
+// lines starting with # are comments)
+// Untagged prompts are rated by keyword; a tag can raise the rating but not lower it
+// Returns null if fewer than MIN_PACK_PROMPTS prompts survive validation
+export function parsePromptPack(input: unknown): PromptPack | null {
+  if (!input || typeof input !== "object") {
+    return null;
+  }
+  const data = input as Record<string, unknown>;
+
+  let rawPrompts: unknown[];
+  if (Array.isArray(data.prompts)) {
+    rawPrompts = data.prompts;
+  } else if (typeof data.prompts === "string") {
+    rawPrompts = data.prompts.split("\n").filter(line => !line.trim().startsWith("#"));
+  } else {
+    return null;
+  }
+
+  // Validate each prompt like an admin exact question, dropping duplicates
+  const seen = new Set<string>();
+  const prompts: TaggedPrompt[] = [];
+  for (const raw of rawPrompts) {
+    const entry = raw && typeof raw === "object" ? raw as Record<string, unknown> : { text: raw };
+    const prompt = validateExactQuestion(typeof entry.text === "string" ? entry.text : null);
+    if (prompt && prompt.length <= MAX_PACK_PROMPT_LENGTH && !seen.has(prompt.toLowerCase())) {
+      seen.add(prompt.toLowerCase());
+      const detected = classifyContentRating(prompt);
+      const tagged = parseContentRating(entry.rating);
+      const rating = tagged && isAllowedAtRating(detected, tagged) ? tagged : detected;
+      prompts.push({ text: prompt, rating });
+    }
+    if (prompts.length >= MAX_PACK_PROMPTS) break;
+  }
+  if (prompts.length < MIN_PACK_PROMPTS) {
+    return null;
+  }
+
+  const name = validateExactQuestion(typeof data.name === "string" ? data.name : null);
+  return {
+    id: CUSTOM_PACK_ID,
+    name: name ? name.slice(0, MAX_PACK_NAME_LENGTH) : "Custom pack",
+    prompts,
+    packOnly: data.packOnly === true,
+  };
+}
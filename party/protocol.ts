@@ -0,0 +1,640 @@
+// Wire protocol shared by the server (party/main.ts), the game page and the test utilities
+// Every message is a discriminated union on `type`. The parse functions only check shape;
+// value rules (round limits, lengths, who may do what) stay with the server
+
+import type { DuelPrompt } from "./duel";
+import type { EndCondition } from "./end-condition";
+import type { GameMode } from "./game-mode";
+import type { ModerationReason, ModerationSettings } from "./moderation";
+import type { ContentRating } from "./prompts";
+import type { PointsBreakdown, ScoringRules } from "./scoring";
+
+export type { ContentRating, DuelPrompt, EndCondition, GameMode, ModerationReason, ModerationSettings, PointsBreakdown, ScoringRules };
+
+export const PHASES = {
+  LOBBY: "lobby",
+  PROMPT: "prompt",
+  WRITING: "writing",
+  VOTING: "voting",
+  REVEAL: "reveal",
+  FINAL: "final",
+} as const;
+
+export type Phase = (typeof PHASES)[keyof typeof PHASES];
+
+export type PromptSource = "ai" | "fallback" | "admin" | "fact"; // "fact": a bluff-mode question from the fact pack
+
+// A validated prompt waiting in the room's queue for an upcoming round
+export interface QueuedPrompt {
+  id: string; // Stable id so admins can reorder/discard while the queue changes underneath them
+  prompt: string;
+  source: PromptSource;
+}
+
+// Player as broadcast to every client (isAdmin is never sent)
+export interface PublicPlayer {
+  id: string;
+  name: string;
+  score: number;
+  winStreak: number;
+  disconnectedAt?: number; // Timestamp when player disconnected (for reconnect grace period)
+  isVoyeur?: boolean;
+}
+
+export interface ChatMessage {
+  id: string;
+  playerId: string;
+  playerName: string;
+  text: string;
+  timestamp: number;
+  type: "chat" | "system";
+}
+
+// An answer as shown to clients; identity is only revealed in REVEAL
+export interface Answer {
+  answerId: number; // Index into the shuffled answer order
+  playerId?: string; // Only present in REVEAL phase
+  isTruth?: boolean; // Bluff mode, REVEAL: shown instead of playerId when the real answer is unveiled
+  answer: string;
+  votes: number;
+  isOwn?: boolean; // Set client-side in VOTING from the own-answer message (see markOwnAnswer)
+}
+
+// One round of the game archive, kept in full for the FINAL recap (unlike the LLM's roundHistory)
+// Names are captured at the time so the recap still reads right after players leave
+export interface ArchivedRound {
+  round: number;
+  matchup?: number; // Duel rounds archive one entry per matchup, numbered from 1
+  prompt: string;
+  promptSource: PromptSource | null;
+  answers: ArchivedAnswer[]; // In voting order
+  truth?: ArchivedTruth; // Bluff rounds only
+}
+
+export interface ArchivedTruth {
+  answer: string;
+  voters: { playerId: string; name: string }[]; // Counted voters who found it
+}
+
+export interface ArchivedAnswer {
+  playerId: string;
+  name: string;
+  answer: string;
+  votes: number; // Votes that counted towards points
+  points: number; // Points awarded this round, including the winner bonus
+  voters: { playerId: string; name: string }[];
+}
+
+// End-of-game superlative, worked out from the archive when the game reaches FINAL (see party/awards.ts)
+export interface Award {
+  id: "most-roasted" | "best-streak" | "kingmaker" | "most-unanimous" | "biggest-shutout";
+  title: string;
+  emoji: string;
+  winners: { playerId: string; name: string }[]; // Everyone tied for it
+  detail: string; // e.g. "Named in 3 prompts"
+}
+
+// Public copy of a finished game, saved to room storage and served at /recap/[id]
+// Never carries player ids; with hideAuthors it doesn't say who wrote or voted for what either
+export interface GameRecap {
+  id: string; // "<roomId>-<random>", see party/recap.ts
+  roomId: string;
+  theme: string;
+  finishedAt: number;
+  hideAuthors: boolean;
+  rounds: RecapRound[];
+  standings: { name: string; score: number }[]; // Highest score first
+}
+
+export interface RecapRound {
+  round: number;
+  matchup?: number; // Duel rounds only, numbered from 1
+  prompt: string;
+  answers: RecapAnswer[]; // Most votes first
+  truth?: { answer: string; votes: number; voters?: string[] }; // Bluff rounds only; voters omitted with hideAuthors
+}
+
+export interface RecapAnswer {
+  answer: string;
+  votes: number;
+  points: number;
+  author?: string; // Omitted when hideAuthors is set
+  voters?: string[]; // Omitted when hideAuthors is set
+}
+
+// Pack metadata only - prompts stay server-side
+export interface PromptPackSummary {
+  id: string;
+  name: string;
+  promptCount: number;
+  packOnly: boolean;
+}
+
+// Moderation settings as everyone sees them - the entries go to the host alone (BlocklistMessage)
+export interface PublicModerationSettings {
+  blockedCount: number;
+  aiCheck: boolean;
+}
+
+// ---- Client -> server ----
+
+// Lobby settings sent with start/update-settings; omitted keys are left unchanged
+// Numbers may arrive as numeric strings and unknown values are ignored, so these stay loose
+export interface LobbySettings {
+  theme?: string;
+  roundLimit?: number | string | null; // Shorthand for a rounds (or endless, if null) end condition
+  endCondition?: Partial<EndCondition>;
+  writingTimeLimit?: number | string | null;
+  votingTimeLimit?: number | string | null;
+  contentRating?: string;
+  blocklist?: string | string[];
+  aiModeration?: boolean;
+  scoring?: string | Partial<ScoringRules>; // Preset id, or rules to change
+  mode?: string; // GameMode
+}
+
+// Admin overrides (WebSocket admin-set-override and the HTTP set-override action)
+export interface AdminOverride {
+  exactQuestion?: string | null; // null clears
+  promptGuidance?: string | null; // null clears
+}
+
+export type ClientMessage =
+  | { type: "join"; name?: string; adminKey?: string; sessionToken?: string } // Token required to reclaim an existing seat
+  | ({ type: "start" } & LobbySettings)
+  | ({ type: "update-settings" } & LobbySettings)
+  | { type: "set-prompt-pack"; packId?: string; pack?: unknown }
+  | { type: "transfer-host"; playerId: string }
+  | { type: "answer"; answer: string; matchupId?: number } // matchupId: which of a duel player's prompts this answers
+  | { type: "vote"; votedFor: number }
+  | { type: "end-writing" }
+  | { type: "end-voting" }
+  | { type: "next-round" }
+  | { type: "restart" }
+  | { type: "toggle-voyeur" }
+  | { type: "kick"; playerId: string }
+  | { type: "ban"; playerId: string }
+  | { type: "chat"; text: string }
+  | ({ type: "admin-set-override" } & AdminOverride)
+  | { type: "admin-reorder-prompts"; promptIds: string[] }
+  | { type: "admin-discard-prompt"; promptId: string }
+  | { type: "resync" } // Ask for a full state after missing a patch
+  | { type: "observe" } // Watch as a shared display instead of joining as a player
+  | { type: "reveal-next" } // Host skips ahead one step of the reveal sequence
+  | { type: "set-recap-options"; hideAuthors: boolean }; // Host, in FINAL: re-save the recap with or without authors
+
+// ---- Server -> client ----
+
+// Full snapshot, sent on connect/join and on resync; patches build on top of it
+export interface StateMessage {
+  type: "state";
+  version: number; // stateVersion this snapshot is at
+  phase: Phase;
+  mode: GameMode; // Chosen in LOBBY
+  round: number;
+  matchup: { index: number; count: number } | null; // Duel mode, VOTING and REVEAL: which matchup is up
+  roundLimit: number | null; // Rounds mode only
+  endCondition: EndCondition;
+  gameEndsAt: number | null; // Timed games, once round 1 has started
+  players: PublicPlayer[];
+  observerCount: number; // Display screens watching the room; never players
+  hostId: string | null;
+  currentPrompt: string;
+  promptSource: PromptSource | null;
+  theme: string;
+  isGenerating: boolean;
+  isPromptLoading: boolean;
+  submittedPlayerIds: string[];
+  votedPlayerIds: string[];
+  writingTimeLimit: number | null;
+  votingTimeLimit: number | null;
+  phaseEndsAt: number | null; // Server deadline for the current phase (epoch ms)
+  promptPack: PromptPackSummary;
+  contentRating: ContentRating;
+  moderation: PublicModerationSettings;
+  scoringRules: ScoringRules;
+  answers: Answer[]; // In REVEAL: only unveiled answers, fewest votes first
+  votes: Record<string, string>; // In REVEAL: empty until the sequence finishes
+  pointsBreakdown: PointsBreakdown[]; // How this round's points were scored; REVEAL only, once the sequence finishes
+  // REVEAL progress: each answer then its author, then the winner; complete when revealStep === revealSteps
+  revealStep: number;
+  revealSteps: number;
+  archive: ArchivedRound[] | null; // Every round of the game, only sent in FINAL
+  recap: GameRecap | null; // The saved recap for this game, only sent in FINAL
+  awards: Award[] | null; // Only sent in FINAL
+}
+
+// The public state without envelope fields; what patches are computed over
+export type PublicState = Omit<StateMessage, "type" | "version">;
+
+// Broadcast after every state change with only what changed since the previous version
+// Clients apply it on top of version - 1 and ask for a resync if they see a gap
+export interface StatePatchMessage {
+  type: "state-patch";
+  version: number;
+  changes: Partial<Omit<PublicState, "players">>;
+  players?: { updated: PublicPlayer[]; removed: string[] }; // Updated entries are whole players
+}
+
+// Which anonymous answer is the viewer's own, sent to each answering connection when VOTING starts
+// Kept out of the shared state so one patch can go to everyone
+export interface OwnAnswerMessage {
+  type: "own-answer";
+  round: number;
+  matchup?: number; // Duel mode: the matchup the answer is in
+  answerId: number;
+}
+
+// The room's blocklist entries, sent to the host alone when they or the list change, and on reconnect
+// The shared state only carries how many there are, so players can't read the filter terms
+export interface BlocklistMessage {
+  type: "blocklist";
+  entries: ModerationSettings["blocklist"];
+}
+
+// A duel player's two prompts, sent to them alone when WRITING starts, after each answer and on reconnect
+export interface DuelPromptsMessage {
+  type: "duel-prompts";
+  round: number;
+  prompts: DuelPrompt[];
+}
+
+export interface AdminStateMessage {
+  type: "admin-state";
+  exactQuestion: string | null;
+  promptGuidance: string | null;
+  promptQueue: QueuedPrompt[];
+  targetCounts: { playerId: string; name: string; count: number }[]; // Prompts each player has been named in this game
+}
+
+export type ModerationErrorCode = "answer-rejected" | "chat-rejected";
+
+// Sent to a single connection when its message was refused
+export type ErrorMessage =
+  | { type: "error"; code: "invalid-message" | "session-rejected" | "name-rejected" | "answer-is-truth"; message: string }
+  | { type: "error"; code: ModerationErrorCode; reason: ModerationReason; message: string };
+
+export type ServerMessage =
+  | { type: "connected"; roomId: string }
+  | StateMessage
+  | StatePatchMessage
+  | OwnAnswerMessage
+  | DuelPromptsMessage
+  | BlocklistMessage
+  | AdminStateMessage
+  | { type: "chat_history"; messages: ChatMessage[] }
+  | { type: "chat_message"; message: ChatMessage }
+  | { type: "session"; token: string } // Sent on join; the client stores it for reconnects
+  | { type: "removed"; reason: "kicked" | "banned" }
+  | { type: "prompt-pack-rejected"; reason: string }
+  | ErrorMessage;
+
+// ---- Runtime validation ----
+
+export type ParseResult<T> = { ok: true; message: T } | { ok: false; error: string };
+
+type Check = (value: unknown) => boolean;
+
+const isString: Check = v => typeof v === "string";
+const isNumber: Check = v => typeof v === "number" && Number.isFinite(v);
+const isBoolean: Check = v => typeof v === "boolean";
+const isObject: Check = v => typeof v === "object" && v !== null && !Array.isArray(v);
+const anything: Check = () => true;
+const optional = (check: Check): Check => v => v === undefined || check(v);
+const nullable = (check: Check): Check => v => v === null || check(v);
+const arrayOf = (check: Check): Check => v => Array.isArray(v) && v.every(check);
+const oneOf = (...values: unknown[]): Check => v => values.includes(v);
+const shape = (fields: Record<string, Check>): Check => v => isObject(v) && firstInvalidField(v as object, fields) === null;
+const recordOf = (check: Check): Check => v => isObject(v) && Object.values(v as object).every(check);
+
+const settingNumber = optional(nullable(v => isNumber(v) || isString(v)));
+
+const LOBBY_SETTINGS_FIELDS: Record<keyof LobbySettings, Check> = {
+  theme: optional(isString),
+  mode: optional(isString),
+  roundLimit: settingNumber,
+  endCondition: optional(isObject),
+  writingTimeLimit: settingNumber,
+  votingTimeLimit: settingNumber,
+  contentRating: optional(isString),
+  blocklist: optional(v => isString(v) || arrayOf(isString)(v)),
+  aiModeration: optional(isBoolean),
+  scoring: optional(v => isString(v) || isObject(v)),
+};
+
+const ADMIN_OVERRIDE_FIELDS: Record<keyof AdminOverride, Check> = {
+  exactQuestion: optional(nullable(isString)),
+  promptGuidance: optional(nullable(isString)),
+};
+
+const CLIENT_MESSAGE_FIELDS: Record<ClientMessage["type"], Record<string, Check>> = {
+  "join": { name: optional(isString), adminKey: optional(isString), sessionToken: optional(isString) },
+  "start": LOBBY_SETTINGS_FIELDS,
+  "update-settings": LOBBY_SETTINGS_FIELDS,
+  "set-prompt-pack": { packId: optional(isString), pack: anything },
+  "transfer-host": { playerId: isString },
+  "answer": { answer: isString, matchupId: optional(v => Number.isInteger(v)) },
+  "vote": { votedFor: v => Number.isInteger(v) },
+  "end-writing": {},
+  "end-voting": {},
+  "next-round": {},
+  "restart": {},
+  "toggle-voyeur": {},
+  "kick": { playerId: isString },
+  "ban": { playerId: isString },
+  "chat": { text: isString },
+  "admin-set-override": ADMIN_OVERRIDE_FIELDS,
+  "admin-reorder-prompts": { promptIds: arrayOf(isString) },
+  "admin-discard-prompt": { promptId: isString },
+  "resync": {},
+  "observe": {},
+  "reveal-next": {},
+  "set-recap-options": { hideAuthors: isBoolean },
+};
+
+const isQueuedPrompt = shape({ id: isString, prompt: isString, source: oneOf("ai", "fallback", "admin", "fact") });
+const isChatMessage = shape({
+  id: isString,
+  playerId: isString,
+  playerName: isString,
+  text: isString,
+  timestamp: isNumber,
+  type: oneOf("chat", "system"),
+});
+
+const isPublicPlayer = shape({
+  id: isString,
+  name: isString,
+  score: isNumber,
+  winStreak: isNumber,
+  disconnectedAt: optional(isNumber),
+  isVoyeur: optional(isBoolean),
+});
+
+const isRecap = shape({
+  id: isString,
+  roomId: isString,
+  theme: isString,
+  finishedAt: isNumber,
+  hideAuthors: isBoolean,
+  rounds: arrayOf(shape({
+    round: isNumber,
+    matchup: optional(isNumber),
+    prompt: isString,
+    answers: arrayOf(shape({
+      answer: isString,
+      votes: isNumber,
+      points: isNumber,
+      author: optional(isString),
+      voters: optional(arrayOf(isString)),
+    })),
+    truth: optional(shape({ answer: isString, votes: isNumber, voters: optional(arrayOf(isString)) })),
+  })),
+  standings: arrayOf(shape({ name: isString, score: isNumber })),
+});
+
+const PUBLIC_STATE_FIELDS: Record<keyof PublicState, Check> = {
+  phase: oneOf(...Object.values(PHASES)),
+  mode: oneOf("roast", "bluff", "duel"),
+  round: isNumber,
+  matchup: nullable(shape({ index: isNumber, count: isNumber })),
+  roundLimit: nullable(isNumber),
+  endCondition: v => isObject(v) && oneOf("rounds", "timed", "score", "endless")((v as { type?: unknown }).type),
+  gameEndsAt: nullable(isNumber),
+  players: arrayOf(isPublicPlayer),
+  observerCount: isNumber,
+  hostId: nullable(isString),
+  currentPrompt: isString,
+  promptSource: nullable(oneOf("ai", "fallback", "admin", "fact")),
+  theme: isString,
+  isGenerating: isBoolean,
+  isPromptLoading: isBoolean,
+  submittedPlayerIds: arrayOf(isString),
+  votedPlayerIds: arrayOf(isString),
+  writingTimeLimit: nullable(isNumber),
+  votingTimeLimit: nullable(isNumber),
+  phaseEndsAt: nullable(isNumber),
+  promptPack: shape({ id: isString, name: isString, promptCount: isNumber, packOnly: isBoolean }),
+  contentRating: oneOf("family", "pg13", "adult"),
+  moderation: shape({ blockedCount: isNumber, aiCheck: isBoolean }),
+  scoringRules: shape({
+    pointsPerVote: isNumber,
+    winnerBonus: isNumber,
+    tiePolicy: oneOf("full", "split", "none"),
+    streakMultiplier: isNumber,
+    doubleFinalRound: isBoolean,
+    catchUpBonus: isNumber,
+  }),
+  answers: arrayOf(shape({
+    answerId: isNumber,
+    playerId: optional(isString),
+    isTruth: optional(isBoolean),
+    answer: isString,
+    votes: isNumber,
+    isOwn: optional(isBoolean),
+  })),
+  votes: recordOf(isString),
+  pointsBreakdown: arrayOf(shape({
+    playerId: isString,
+    votes: isNumber,
+    votePoints: isNumber,
+    winnerBonus: isNumber,
+    streakBonus: isNumber,
+    catchUpBonus: isNumber,
+    truthPoints: isNumber,
+    multiplier: isNumber,
+    total: isNumber,
+  })),
+  revealStep: isNumber,
+  revealSteps: isNumber,
+  archive: nullable(arrayOf(shape({
+    round: isNumber,
+    matchup: optional(isNumber),
+    prompt: isString,
+    promptSource: nullable(oneOf("ai", "fallback", "admin", "fact")),
+    answers: arrayOf(shape({
+      playerId: isString,
+      name: isString,
+      answer: isString,
+      votes: isNumber,
+      points: isNumber,
+      voters: arrayOf(shape({ playerId: isString, name: isString })),
+    })),
+    truth: optional(shape({ answer: isString, voters: arrayOf(shape({ playerId: isString, name: isString })) })),
+  }))),
+  recap: nullable(isRecap),
+  awards: nullable(arrayOf(shape({
+    id: oneOf("most-roasted", "best-streak", "kingmaker", "most-unanimous", "biggest-shutout"),
+    title: isString,
+    emoji: isString,
+    winners: arrayOf(shape({ playerId: isString, name: isString })),
+    detail: isString,
+  }))),
+};
+
+// Every key in a patch must be a known state field with a valid value
+const isStateChanges: Check = v =>
+  isObject(v) && Object.entries(v as object).every(([key, value]) =>
+    key !== "players" && Object.hasOwn(PUBLIC_STATE_FIELDS, key) && PUBLIC_STATE_FIELDS[key as keyof PublicState](value)
+  );
+
+const SERVER_MESSAGE_FIELDS: Record<ServerMessage["type"], Record<string, Check>> = {
+  "connected": { roomId: isString },
+  "state": { version: isNumber, ...PUBLIC_STATE_FIELDS },
+  "state-patch": {
+    version: isNumber,
+    changes: isStateChanges,
+    players: optional(shape({ updated: arrayOf(isPublicPlayer), removed: arrayOf(isString) })),
+  },
+  "own-answer": { round: isNumber, matchup: optional(isNumber), answerId: isNumber },
+  "duel-prompts": {
+    round: isNumber,
+    prompts: arrayOf(shape({ matchupId: isNumber, prompt: isString, answered: isBoolean })),
+  },
+  "blocklist": { entries: arrayOf(isString) },
+  "admin-state": {
+    exactQuestion: nullable(isString),
+    promptGuidance: nullable(isString),
+    promptQueue: arrayOf(isQueuedPrompt),
+    targetCounts: arrayOf(shape({ playerId: isString, name: isString, count: isNumber })),
+  },
+  "chat_history": { messages: arrayOf(isChatMessage) },
+  "chat_message": { message: isChatMessage },
+  "session": { token: isString },
+  "removed": { reason: oneOf("kicked", "banned") },
+  "prompt-pack-rejected": { reason: isString },
+  "error": {
+    code: oneOf("invalid-message", "session-rejected", "name-rejected", "answer-is-truth", "answer-rejected", "chat-rejected"),
+    reason: optional(oneOf("slur", "blocklist", "ai")),
+    message: isString,
+  },
+};
+
+// Name of the first field that fails its check, or null if all pass
+function firstInvalidField(data: object, fields: Record<string, Check>): string | null {
+  for (const [field, check] of Object.entries(fields)) {
+    if (!check((data as Record<string, unknown>)[field])) {
+      return field;
+    }
+  }
+  return null;
+}
+
+function parseMessage<T>(raw: string, fieldsByType: Record<string, Record<string, Check>>): ParseResult<T> {
+  let data: unknown;
+  try {
+    data = JSON.parse(raw);
+  } catch {
+    return { ok: false, error: "Message is not valid JSON" };
+  }
+  if (!isObject(data)) {
+    return { ok: false, error: "Message must be a JSON object" };
+  }
+  const type = (data as { type?: unknown }).type;
+  if (typeof type !== "string" || !Object.hasOwn(fieldsByType, type)) {
+    return { ok: false, error: `Unknown message type: ${String(type).slice(0, 50)}` };
+  }
+  const invalidField = firstInvalidField(data as object, fieldsByType[type]);
+  if (invalidField !== null) {
+    return { ok: false, error: `Invalid "${invalidField}" for ${type}` };
+  }
+  return { ok: true, message: data as T };
+}
+
+// Validate a message from a client (untrusted)
+export function parseClientMessage(raw: string): ParseResult<ClientMessage> {
+  return parseMessage<ClientMessage>(raw, CLIENT_MESSAGE_FIELDS);
+}
+
+// Validate a message from the server (guards the client against version skew)
+export function parseServerMessage(raw: string): ParseResult<ServerMessage> {
+  return parseMessage<ServerMessage>(raw, SERVER_MESSAGE_FIELDS);
+}
+
+// Validate a recap fetched over HTTP (the /recap page talks to whatever server version is deployed)
+export function isGameRecap(value: unknown): value is GameRecap {
+  return isRecap(value);
+}
+
+// Shape check for admin overrides arriving outside a WebSocket message (HTTP API)
+export function isAdminOverride(value: unknown): value is AdminOverride {
+  return isObject(value) && firstInvalidField(value as object, ADMIN_OVERRIDE_FIELDS) === null;
+}
+
+// ---- State patches ----
+
+// What changed between two public states, or null if nothing did
+// Top-level fields are compared by value; players are diffed per player so one toggle
+// doesn't resend the whole list
+export function diffPublicState(
+  prev: PublicState,
+  next: PublicState
+): Pick<StatePatchMessage, "changes" | "players"> | null {
+  const changes: Record<string, unknown> = {};
+  for (const key of Object.keys(next) as (keyof PublicState)[]) {
+    if (key !== "players" && JSON.stringify(prev[key]) !== JSON.stringify(next[key])) {
+      changes[key] = next[key];
+    }
+  }
+
+  const previousPlayers = new Map(prev.players.map(p => [p.id, JSON.stringify(p)]));
+  const nextIds = new Set(next.players.map(p => p.id));
+  const updated = next.players.filter(p => previousPlayers.get(p.id) !== JSON.stringify(p));
+  const removed = prev.players.filter(p => !nextIds.has(p.id)).map(p => p.id);
+  const playersChanged = updated.length > 0 || removed.length > 0;
+
+  if (Object.keys(changes).length === 0 && !playersChanged) {
+    return null;
+  }
+  return playersChanged ? { changes, players: { updated, removed } } : { changes };
+}
+
+// Apply a patch to the state it was computed against (caller checks the version follows on)
+// New players are appended, matching the server's join order
+export function applyStatePatch(state: StateMessage, patch: StatePatchMessage): StateMessage {
+  let players = state.players;
+  if (patch.players) {
+    const removed = new Set(patch.players.removed);
+    const updated = new Map(patch.players.updated.map(p => [p.id, p]));
+    players = state.players.filter(p => !removed.has(p.id)).map(p => updated.get(p.id) ?? p);
+    const known = new Set(players.map(p => p.id));
+    players.push(...patch.players.updated.filter(p => !known.has(p.id)));
+  }
+  return { ...state, ...patch.changes, players, version: patch.version };
+}
+
+// What a client holds between messages; both the game page and the display page keep one
+export interface StateSync {
+  state: StateMessage | null;
+  resyncPending: boolean; // A gap was seen; patches are ignored until the full state arrives
+}
+
+// Fold a full state or a patch into what the client holds
+// A full state (join, reconnect or resync) always replaces it. A patch only applies if it follows
+// on from the current version; on a gap the caller sends one resync rather than render a wrong state
+export function syncState(
+  sync: StateSync,
+  message: StateMessage | StatePatchMessage
+): { sync: StateSync; requestResync: boolean } {
+  if (message.type === "state") {
+    return { sync: { state: message, resyncPending: false }, requestResync: false };
+  }
+  const current = sync.state;
+  // Before the first full state, or a duplicate/old patch - nothing to apply it to
+  if (!current || sync.resyncPending || message.version <= current.version) {
+    return { sync, requestResync: false };
+  }
+  if (message.version !== current.version + 1) {
+    return { sync: { ...sync, resyncPending: true }, requestResync: true };
+  }
+  return { sync: { state: applyStatePatch(current, message), resyncPending: false }, requestResync: false };
+}
+
+// Mark the viewer's own answer during VOTING (in a duel, only if it's in the matchup being voted on)
+export function markOwnAnswer(state: StateMessage, ownAnswer: OwnAnswerMessage | null): StateMessage {
+  if (state.phase !== PHASES.VOTING) {
+    return state;
+  }
+  const ownId = ownAnswer?.round === state.round && ownAnswer.matchup === state.matchup?.index ? ownAnswer.answerId : null;
+  return { ...state, answers: state.answers.map(a => ({ ...a, isOwn: a.answerId === ownId })) };
+}
@@ -0,0 +1,115 @@
+// Shareable recaps of finished games
+// Built by the server when a game reaches FINAL; the recap page and the FINAL screen's exports read the same shape
+
+import type { ArchivedRound, GameRecap, RecapAnswer, RecapRound } from "./protocol";
+
+// The room id is part of the recap id so the recap page knows which room's storage to ask
+const RECAP_ID_PATTERN = /^([A-Za-z0-9_-]+)-([0-9a-f]{12})$/;
+
+export function createRecapId(roomId: string): string {
+  const suffix = Array.from(crypto.getRandomValues(new Uint8Array(6)), b => b.toString(16).padStart(2, "0")).join("");
+  return `${roomId}-${suffix}`;
+}
+
+// Room a recap was saved in, or null if the id isn't one we'd have issued
+export function parseRecapId(id: string): { roomId: string } | null {
+  const match = RECAP_ID_PATTERN.exec(id);
+  return match ? { roomId: match[1] } : null;
+}
+
+interface RecapSource {
+  id: string;
+  roomId: string;
+  theme: string;
+  finishedAt: number;
+  hideAuthors: boolean;
+  archive: ArchivedRound[];
+  players: { name: string; score: number; isVoyeur?: boolean }[];
+}
+
+export function buildRecap(source: RecapSource): GameRecap {
+  const rounds: RecapRound[] = source.archive.map(round => ({
+    round: round.round,
+    ...(round.matchup !== undefined && { matchup: round.matchup }),
+    prompt: round.prompt,
+    answers: [...round.answers]
+      .sort((a, b) => b.votes - a.votes)
+      .map((a): RecapAnswer => source.hideAuthors
+        ? { answer: a.answer, votes: a.votes, points: a.points }
+        : { answer: a.answer, votes: a.votes, points: a.points, author: a.name, voters: a.voters.map(v => v.name) }),
+    ...(round.truth && {
+      truth: source.hideAuthors
+        ? { answer: round.truth.answer, votes: round.truth.voters.length }
+        : { answer: round.truth.answer, votes: round.truth.voters.length, voters: round.truth.voters.map(v => v.name) },
+    }),
+  }));
+
+  // Watchers who never scored didn't play this game
+  const standings = source.players
+    .filter(p => !p.isVoyeur || p.score > 0)
+    .sort((a, b) => b.score - a.score)
+    .map(p => ({ name: p.name, score: p.score }));
+
+  return {
+    id: source.id,
+    roomId: source.roomId,
+    theme: source.theme,
+    finishedAt: source.finishedAt,
+    hideAuthors: source.hideAuthors,
+    rounds,
+    standings,
+  };
+}
+
+// "Round 2", or "Round 2 · Matchup 3" for a duel matchup
+export function roundLabel(round: { round: number; matchup?: number }): string {
+  return round.matchup !== undefined ? `Round ${round.round} · Matchup ${round.matchup}` : `Round ${round.round}`;
+}
+
+// Top-voted answers of a round (several on a tie, none if nobody got a vote)
+export function recapWinners(round: RecapRound): RecapAnswer[] {
+  const maxVotes = Math.max(0, ...round.answers.map(a => a.votes));
+  return maxVotes > 0 ? round.answers.filter(a => a.votes === maxVotes) : [];
+}
+
+// Players' text goes into Markdown as-is otherwise, so a stray * or # would reformat the export
+function escapeMarkdown(text: string): string {
+  return text.replace(/[\\`*_[\]#<>|~]/g, "\\$&");
+}
+
+export function recapToMarkdown(recap: GameRecap): string {
+  const lines = [
+    `# Shtus recap${recap.theme ? `: ${escapeMarkdown(recap.theme)}` : ""}`,
+    "",
+    `Finished ${new Date(recap.finishedAt).toISOString().slice(0, 10)} in room ${recap.roomId}`,
+    "",
+    "## Final standings",
+    "",
+    ...recap.standings.map((p, i) => `${i + 1}. ${escapeMarkdown(p.name)} - ${p.score} pts`),
+  ];
+
+  for (const round of recap.rounds) {
+    const winners = recapWinners(round);
+    lines.push("", `## ${roundLabel(round)}: ${escapeMarkdown(round.prompt)}`, "");
+    if (round.truth) {
+      lines.push(`- The truth: **${escapeMarkdown(round.truth.answer)}** · ${round.truth.votes} found it`);
+      if (round.truth.voters && round.truth.voters.length > 0) {
+        lines.push(`  - Found by ${round.truth.voters.map(escapeMarkdown).join(", ")}`);
+      }
+    }
+    if (round.answers.length === 0) {
+      lines.push("_Nobody answered._");
+    }
+    for (const a of round.answers) {
+      const author = a.author !== undefined ? ` - ${escapeMarkdown(a.author)}` : "";
+      const points = a.points > 0 ? ` (+${a.points} pts)` : "";
+      const trophy = winners.includes(a) ? " 🏆" : "";
+      lines.push(`- **${escapeMarkdown(a.answer)}**${author} · ${a.votes} vote${a.votes !== 1 ? "s" : ""}${points}${trophy}`);
+      if (a.voters && a.voters.length > 0) {
+        lines.push(`  - Voted by ${a.voters.map(escapeMarkdown).join(", ")}`);
+      }
+    }
+  }
+
+  return lines.join("\n") + "\n";
+}
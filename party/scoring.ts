@@ -0,0 +1,165 @@
+// Scoring rules for a round's votes, chosen in the lobby from a preset or as custom values
+// endVoting hands the round's vote counts to scoreRound and applies whatever it returns
+
+// What happens to the winner bonus when several answers tie for the most votes
+// full: each tied answer gets the whole bonus; split: they share it; none: nobody gets it
+export type TiePolicy = "full" | "split" | "none";
+
+export interface ScoringRules {
+  pointsPerVote: number;
+  winnerBonus: number;
+  tiePolicy: TiePolicy;
+  streakMultiplier: number; // The winner bonus grows by this fraction for each round already in the winner's streak (0 = off)
+  doubleFinalRound: boolean; // Every point counts twice in the last round: a rounds game's last, or a timed game's once time is up (see isFinalRound)
+  catchUpBonus: number; // Extra points for players in last place who still got a vote (0 = off)
+}
+
+// How one player's points for a round were worked out, shown on the REVEAL screen
+export interface PointsBreakdown {
+  playerId: string;
+  votes: number;
+  votePoints: number;
+  winnerBonus: number;
+  streakBonus: number;
+  catchUpBonus: number;
+  truthPoints: number; // Bluff mode: for voting for the real answer
+  multiplier: number; // Applied to the sum of the above
+  total: number;
+}
+
+export const TIE_POLICIES: TiePolicy[] = ["full", "split", "none"];
+
+export type ScoringPresetId = "classic" | "streaks" | "comeback";
+
+export const SCORING_PRESETS: Record<ScoringPresetId, ScoringRules> = {
+  // The original fixed scoring
+  classic: {
+    pointsPerVote: 100,
+    winnerBonus: 200,
+    tiePolicy: "full",
+    streakMultiplier: 0,
+    doubleFinalRound: false,
+    catchUpBonus: 0,
+  },
+  streaks: {
+    pointsPerVote: 100,
+    winnerBonus: 200,
+    tiePolicy: "split",
+    streakMultiplier: 0.5,
+    doubleFinalRound: false,
+    catchUpBonus: 0,
+  },
+  comeback: {
+    pointsPerVote: 100,
+    winnerBonus: 200,
+    tiePolicy: "full",
+    streakMultiplier: 0,
+    doubleFinalRound: true,
+    catchUpBonus: 150,
+  },
+};
+
+export function defaultScoringRules(): ScoringRules {
+  return { ...SCORING_PRESETS.classic };
+}
+
+// Preset these rules match exactly, or null for custom rules
+export function scoringPresetOf(rules: ScoringRules): ScoringPresetId | null {
+  const match = (Object.keys(SCORING_PRESETS) as ScoringPresetId[]).find(id =>
+    (Object.keys(rules) as (keyof ScoringRules)[]).every(key => SCORING_PRESETS[id][key] === rules[key])
+  );
+  return match ?? null;
+}
+
+// Number clamped to [min, max] from a number or numeric string, or null
+function parseBoundedNumber(value: unknown, min: number, max: number, integer: boolean): number | null {
+  const num = typeof value === "string" && value.trim() !== "" ? Number(value) : value;
+  if (typeof num !== "number" || !Number.isFinite(num)) return null;
+  const clamped = Math.min(max, Math.max(min, num));
+  return integer ? Math.round(clamped) : clamped;
+}
+
+// A preset id replaces the rules; an object changes only the valid fields it has
+// Returns null when nothing usable was given, so the caller keeps what it had
+export function parseScoringRules(input: unknown, current: ScoringRules): ScoringRules | null {
+  if (typeof input === "string") {
+    return Object.hasOwn(SCORING_PRESETS, input) ? { ...SCORING_PRESETS[input as ScoringPresetId] } : null;
+  }
+  if (typeof input !== "object" || input === null || Array.isArray(input)) {
+    return null;
+  }
+
+  const data = input as Record<string, unknown>;
+  const next = { ...current };
+  const pointsPerVote = parseBoundedNumber(data.pointsPerVote, 0, 1000, true);
+  const winnerBonus = parseBoundedNumber(data.winnerBonus, 0, 1000, true);
+  const streakMultiplier = parseBoundedNumber(data.streakMultiplier, 0, 2, false);
+  const catchUpBonus = parseBoundedNumber(data.catchUpBonus, 0, 1000, true);
+  if (pointsPerVote !== null) next.pointsPerVote = pointsPerVote;
+  if (winnerBonus !== null) next.winnerBonus = winnerBonus;
+  if (streakMultiplier !== null) next.streakMultiplier = streakMultiplier;
+  if (catchUpBonus !== null) next.catchUpBonus = catchUpBonus;
+  if (TIE_POLICIES.includes(data.tiePolicy as TiePolicy)) next.tiePolicy = data.tiePolicy as TiePolicy;
+  if (typeof data.doubleFinalRound === "boolean") next.doubleFinalRound = data.doubleFinalRound;
+  return next;
+}
+
+interface RoundScoringInput {
+  rules: ScoringRules;
+  voteCounts: Record<string, number>; // Counted votes per author
+  players: { id: string; score: number; winStreak: number }[]; // Everyone counted this round, before scoring
+  isFinalRound: boolean;
+}
+
+// Points for every player who got a vote; scores and streaks are read as they were before this round
+export function scoreRound({ rules, voteCounts, players, isFinalRound }: RoundScoringInput): PointsBreakdown[] {
+  const maxVotes = Math.max(0, ...Object.values(voteCounts));
+  const winnerIds = Object.keys(voteCounts).filter(id => maxVotes > 0 && voteCounts[id] === maxVotes);
+  const bonus = winnerIds.length > 1
+    ? { full: rules.winnerBonus, split: Math.round(rules.winnerBonus / winnerIds.length), none: 0 }[rules.tiePolicy]
+    : rules.winnerBonus;
+
+  // Last place only means something once the scores have spread out
+  const scores = players.map(p => p.score);
+  const lowestScore = Math.min(...scores);
+  const isTrailing = (score: number) => score === lowestScore && lowestScore < Math.max(...scores);
+
+  const multiplier = rules.doubleFinalRound && isFinalRound ? 2 : 1;
+
+  return players
+    .filter(p => (voteCounts[p.id] ?? 0) > 0)
+    .map((p) => {
+      const votes = voteCounts[p.id];
+      const votePoints = votes * rules.pointsPerVote;
+      const winnerBonus = winnerIds.includes(p.id) ? bonus : 0;
+      const streakBonus = Math.round(winnerBonus * rules.streakMultiplier * p.winStreak);
+      const catchUpBonus = isTrailing(p.score) ? rules.catchUpBonus : 0;
+      return {
+        playerId: p.id,
+        votes,
+        votePoints,
+        winnerBonus,
+        streakBonus,
+        catchUpBonus,
+        truthPoints: 0,
+        multiplier,
+        total: (votePoints + winnerBonus + streakBonus + catchUpBonus) * multiplier,
+      };
+    });
+}
+
+// One-line explanation of a breakdown for the REVEAL screen, e.g. "2 votes × 100 + 200 win + 100 streak, ×2 final round"
+export function explainPoints(breakdown: PointsBreakdown): string {
+  const perVote = breakdown.votes > 0 ? breakdown.votePoints / breakdown.votes : 0;
+  const parts: string[] = [];
+  // A bluffer who only found the truth got no votes to explain
+  if (breakdown.votes > 0 || breakdown.truthPoints === 0) {
+    parts.push(`${breakdown.votes} vote${breakdown.votes !== 1 ? "s" : ""} × ${perVote}`);
+  }
+  if (breakdown.truthPoints > 0) parts.push(`${breakdown.truthPoints} truth`);
+  if (breakdown.winnerBonus > 0) parts.push(`${breakdown.winnerBonus} win`);
+  if (breakdown.streakBonus > 0) parts.push(`${breakdown.streakBonus} streak`);
+  if (breakdown.catchUpBonus > 0) parts.push(`${breakdown.catchUpBonus} catch-up`);
+  const sum = parts.join(" + ");
+  return breakdown.multiplier !== 1 ? `${sum}, ×${breakdown.multiplier} final round` : sum;
+}
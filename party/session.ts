@@ -0,0 +1,47 @@
+// Session tokens that tie a player id to the browser that first joined with it
+// The token is HMAC-SHA256(secret, roomId:playerId), so the server can check it without storing it
+// Signing and checking go through Web Crypto, so both are async
+
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes, b => b.toString(16).padStart(2, "0")).join("");
+}
+
+// null for anything that isn't an even-length hex string
+function fromHex(hex: string): Uint8Array<ArrayBuffer> | null {
+  if (hex.length % 2 !== 0 || !/^[0-9a-f]*$/i.test(hex)) return null;
+  return Uint8Array.from(hex.match(/../g) ?? [], byte => parseInt(byte, 16));
+}
+
+function importKey(secret: string, usage: "sign" | "verify"): Promise<CryptoKey> {
+  return crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    [usage]
+  );
+}
+
+// Random per-room secret, used when SESSION_SECRET isn't configured
+export function generateSessionSecret(): string {
+  return toHex(crypto.getRandomValues(new Uint8Array(32)));
+}
+
+export async function createSessionToken(secret: string, roomId: string, playerId: string): Promise<string> {
+  const key = await importKey(secret, "sign");
+  const signature = await crypto.subtle.sign("HMAC", key, new TextEncoder().encode(`${roomId}:${playerId}`));
+  return toHex(new Uint8Array(signature));
+}
+
+// crypto.subtle.verify compares in constant time, so a guessed token learns nothing from timing
+export async function verifySessionToken(
+  secret: string,
+  roomId: string,
+  playerId: string,
+  token: string
+): Promise<boolean> {
+  const signature = fromHex(token);
+  if (!signature) return false;
+  const key = await importKey(secret, "verify");
+  return crypto.subtle.verify("HMAC", key, signature, new TextEncoder().encode(`${roomId}:${playerId}`));
+}
@@ -0,0 +1,61 @@
+// Who each prompt roasts, so every player gets picked on about equally often
+// Prompts hold sanitized names in third person, so targets are found by name matching
+
+import { sanitizeForLLM } from "./prompts";
+
+interface TargetPlayer {
+  id: string;
+  name: string;
+}
+
+// True if the prompt names the player as a whole word in any script, possessives included ("Ben's", "José's")
+export function namedInPrompt(prompt: string, name: string): boolean {
+  const cleaned = sanitizeForLLM(name).toLowerCase();
+  if (cleaned.length === 0) return false;
+  const escaped = cleaned.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  return new RegExp(`(?<![\\p{L}\\p{M}\\p{N}])${escaped}(?![\\p{L}\\p{M}\\p{N}])`, "u").test(prompt.normalize("NFC").toLowerCase());
+}
+
+// Ids of the players a prompt names
+export function promptTargets(prompt: string, players: TargetPlayer[]): string[] {
+  return players.filter(p => namedInPrompt(prompt, p.name)).map(p => p.id);
+}
+
+// Add a prompt's targets to a running count (mutates counts)
+export function countTargets(counts: Record<string, number>, prompt: string, players: TargetPlayer[]): void {
+  for (const id of promptTargets(prompt, players)) {
+    counts[id] = (counts[id] ?? 0) + 1;
+  }
+}
+
+// Who the next `count` prompts should be about: always the least-targeted so far, ties broken at random
+// Players whose name sanitizes away can't be named in a prompt, so they're never picked
+export function planTargets(players: TargetPlayer[], counts: Record<string, number>, count: number): TargetPlayer[] {
+  const nameable = players.filter(p => sanitizeForLLM(p.name).length > 0);
+  const planned = { ...counts };
+  const picks: TargetPlayer[] = [];
+  for (let i = 0; i < count && nameable.length > 0; i++) {
+    const fewest = Math.min(...nameable.map(p => planned[p.id] ?? 0));
+    const candidates = nameable.filter(p => (planned[p.id] ?? 0) === fewest);
+    const pick = candidates[Math.floor(Math.random() * candidates.length)];
+    picks.push(pick);
+    planned[pick.id] = fewest + 1;
+  }
+  return picks;
+}
+
+// Keep one prompt per intended target, in order; prompts that only name players nobody asked for are dropped
+// With no targets (nobody nameable), every prompt is kept
+export function keepTargetedPrompts(prompts: string[], targets: string[]): string[] {
+  if (targets.length === 0) return prompts;
+  const remaining = [...targets];
+  return prompts.filter((prompt) => {
+    const index = remaining.findIndex(name => namedInPrompt(prompt, name));
+    if (index === -1) {
+      console.log("[DEBUG] AI prompt rejected - misses its targets:", prompt.slice(0, 100));
+      return false;
+    }
+    remaining.splice(index, 1);
+    return true;
+  });
+}
@@ -0,0 +1,271 @@
+"use client";
+
+import { useEffect, useState, useRef, use } from "react";
+import PartySocket from "partysocket";
+import { useCountdown } from "@/hooks/useCountdown";
+import JoinQRCode from "@/components/JoinQRCode";
+import {
+  parseServerMessage,
+  syncState,
+  type ClientMessage,
+  type StateMessage as GameState,
+  type StateSync,
+} from "../../../../party/protocol";
+
+// Big-screen view for a shared TV
+// Connects as an observer: it never joins, so it takes no seat, can't be host and isn't counted as a player
+export default function DisplayPage({ params }: { params: Promise<{ roomId: string }> }) {
+  const { roomId } = use(params);
+  const [state, setState] = useState<GameState | null>(null);
+  const syncRef = useRef<StateSync>({ state: null, resyncPending: false });
+  const [connected, setConnected] = useState(false);
+  const [joinUrl, setJoinUrl] = useState(`/join/${roomId}`);
+  const secondsLeft = useCountdown(state?.phaseEndsAt ?? null);
+
+  useEffect(() => {
+    // eslint-disable-next-line react-hooks/set-state-in-effect -- Intentional: origin is only known in the browser
+    setJoinUrl(`${window.location.origin}/join/${roomId}`);
+
+    // Fresh id on every load so a display can never line up with a player's stored id
+    const socket = new PartySocket({
+      host: process.env.NEXT_PUBLIC_PARTYKIT_HOST || "localhost:1999",
+      room: roomId,
+      id: `display-${crypto.randomUUID()}`,
+    });
+
+    socket.onopen = () => {
+      setConnected(true);
+      socket.send(JSON.stringify({ type: "observe" } satisfies ClientMessage));
+    };
+
+    socket.onclose = () => {
+      setConnected(false);
+    };
+
+    socket.onmessage = (e) => {
+      const parsed = parseServerMessage(e.data);
+      if (!parsed.ok) {
+        console.warn("Ignoring unexpected server message:", parsed.error);
+        return;
+      }
+      const data = parsed.message;
+
+      if (data.type === "state" || data.type === "state-patch") {
+        const { sync, requestResync } = syncState(syncRef.current, data);
+        if (requestResync) {
+          socket.send(JSON.stringify({ type: "resync" } satisfies ClientMessage));
+        }
+        if (sync.state !== syncRef.current.state) {
+          setState(sync.state);
+        }
+        syncRef.current = sync;
+      }
+    };
+
+    return () => {
+      socket.close();
+    };
+  }, [roomId]);
+
+  if (!state) {
+    return (
+      <main id="main" className="min-h-screen bg-gradient-to-br from-gradient-from via-gradient-via to-gradient-to flex items-center justify-center" aria-busy="true">
+        <div role="status" aria-live="polite" className="text-white text-4xl">Connecting...</div>
+      </main>
+    );
+  }
+
+  const activePlayers = state.players.filter(p => !p.isVoyeur && !p.disconnectedAt);
+  const sortedPlayers = [...state.players].filter(p => !p.isVoyeur).sort((a, b) => b.score - a.score);
+  // REVEAL is paced by the server: each step adds an answer or its author, the last one the winner
+  const revealComplete = state.revealStep >= state.revealSteps;
+  // In bluff mode the truth isn't anyone's answer, so it can't win the round
+  const lies = state.answers.filter(a => !a.isTruth);
+  const maxVotes = Math.max(0, ...lies.map(a => a.votes));
+  const roundWinners = revealComplete && maxVotes > 0 ? lies.filter(a => a.votes === maxVotes) : [];
+
+  // The reveal's step timer isn't something to count down
+  const countdown = secondsLeft !== null && (state.phase === "writing" || state.phase === "voting") && (
+    <div
+      className={`text-3xl font-bold px-6 py-2 rounded-full ${
+        secondsLeft <= 10 ? "bg-red-500 text-white animate-pulse" : "bg-accent-bg text-white"
+      }`}
+      role="timer"
+      aria-label={`${secondsLeft} seconds left`}
+    >
+      ⏱ {secondsLeft}s
+    </div>
+  );
+
+  return (
+    <main
+      id="main"
+      className="min-h-screen bg-gradient-to-br from-gradient-from via-gradient-via to-gradient-to p-10 flex flex-col text-white"
+      data-testid="display"
+    >
+      <header className="flex items-center justify-between mb-8">
+        <h1 className="text-5xl font-black">SHTUS</h1>
+        <div className="flex items-center gap-6">
+          {countdown}
+          <div className="text-2xl font-mono bg-accent-bg px-6 py-2 rounded-full" data-testid="display-room-code">
+            {roomId}
+          </div>
+          {!connected && <span className="text-xl" role="status">Reconnecting...</span>}
+        </div>
+      </header>
+
+      <div className="flex-1 flex flex-col items-center justify-center">
+        {/* LOBBY: big join code so phones can scan or type it */}
+        {state.phase === "lobby" && (
+          <div className="flex items-center gap-16" data-testid="display-lobby">
+            <div className="bg-white p-6 rounded-3xl shadow-2xl">
+              <JoinQRCode url={joinUrl} className="w-80 h-80" />
+            </div>
+            <div>
+              <p className="text-3xl mb-2">Join at</p>
+              <p className="text-3xl font-bold mb-6 break-all">{joinUrl.replace(/^https?:\/\//, "")}</p>
+              <p className="text-3xl mb-2">Room code</p>
+              <p className="text-8xl font-black font-mono tracking-widest mb-8">{roomId}</p>
+              <p className="text-2xl">
+                {state.isGenerating
+                  ? "Generating prompts..."
+                  : `${activePlayers.length} player${activePlayers.length !== 1 ? "s" : ""} in the room`}
+              </p>
+              <ul className="flex flex-wrap gap-3 mt-4 max-w-2xl" aria-label="Players in room">
+                {activePlayers.map(p => (
+                  <li key={p.id} className="bg-accent-bg px-4 py-2 rounded-full text-2xl">
+                    {p.id === state.hostId && <span role="img" aria-label="Host">👑 </span>}
+                    {p.name}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          </div>
+        )}
+
+        {/* WRITING: prompt and who has answered so far */}
+        {(state.phase === "writing" || state.phase === "prompt") && (
+          <div className="w-full max-w-5xl text-center" data-testid="display-writing">
+            <p className="text-3xl mb-4">Round {state.round}{state.roundLimit ? ` of ${state.roundLimit}` : ""}</p>
+            <h2 className="text-6xl font-black mb-12" data-testid="display-prompt">
+              {state.isPromptLoading ? "Generating question..." : state.currentPrompt}
+            </h2>
+            <p className="text-3xl mb-6" data-testid="display-progress">
+              {state.submittedPlayerIds.length} / {activePlayers.length} answered
+            </p>
+            <ul className="flex flex-wrap justify-center gap-4">
+              {activePlayers.map(p => (
+                <li
+                  key={p.id}
+                  className={`px-5 py-2 rounded-full text-2xl transition-colors ${
+                    state.submittedPlayerIds.includes(p.id) ? "bg-submitted-bg text-submitted-text" : "bg-accent-bg"
+                  }`}
+                >
+                  {state.submittedPlayerIds.includes(p.id) ? "✓ " : ""}{p.name}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {/* VOTING: anonymous answers, numbered so people can talk about them */}
+        {state.phase === "voting" && (
+          <div className="w-full max-w-6xl" data-testid="display-voting">
+            {state.matchup && (
+              <p className="text-3xl text-center mb-4">Matchup {state.matchup.index + 1} of {state.matchup.count}</p>
+            )}
+            <h2 className="text-5xl font-black text-center mb-4">{state.currentPrompt}</h2>
+            <p className="text-2xl text-center mb-10">
+              Vote on your phone · {state.votedPlayerIds.length} / {activePlayers.length} voted
+            </p>
+            <ol className="grid grid-cols-2 gap-6">
+              {state.answers.map((a, i) => (
+                <li key={a.answerId} className="bg-card-bg text-card-text rounded-3xl p-8 text-3xl font-bold shadow-2xl">
+                  <span className="text-purple-600 mr-3">{i + 1}.</span>{a.answer}
+                </li>
+              ))}
+            </ol>
+          </div>
+        )}
+
+        {/* REVEAL: answers drop in as the server unveils them, fewest votes first */}
+        {state.phase === "reveal" && (
+          <div className="w-full max-w-5xl" data-testid="display-reveal">
+            {state.matchup && (
+              <p className="text-3xl text-center mb-4">Matchup {state.matchup.index + 1} of {state.matchup.count}</p>
+            )}
+            <h2 className="text-5xl font-black text-center mb-10">{state.currentPrompt}</h2>
+            {state.answers.length === 0 && !revealComplete && (
+              <p className="text-4xl text-center animate-pulse" role="status">Drumroll...</p>
+            )}
+            <ol className="space-y-5">
+              {state.answers.map(a => {
+                const player = state.players.find(p => p.id === a.playerId);
+                const isWinner = roundWinners.includes(a);
+                return (
+                  <li
+                    key={a.answerId}
+                    className={`animate-reveal-in rounded-3xl p-6 shadow-2xl text-card-text ${
+                      isWinner ? "bg-winner-bg border-4 border-winner-border" : "bg-card-bg"
+                    }`}
+                  >
+                    <div className="text-4xl font-bold">{a.answer}</div>
+                    <div className="flex justify-between text-2xl text-card-muted mt-2">
+                      {a.isTruth ? (
+                        <span className="animate-reveal-in font-bold text-green-600">✅ The truth</span>
+                      ) : player ? (
+                        <span className="animate-reveal-in">- {player.name}</span>
+                      ) : (
+                        <span>- ???</span>
+                      )}
+                      <span>
+                        {isWinner && <span role="img" aria-label="Winner">🏆 </span>}
+                        {a.votes} vote{a.votes !== 1 ? "s" : ""}
+                      </span>
+                    </div>
+                  </li>
+                );
+              })}
+            </ol>
+            {roundWinners.length > 0 && (
+              <div className="animate-reveal-in text-center mt-10">
+                <p className="text-6xl font-black" data-testid="display-round-winner">
+                  🏆 {roundWinners.map(a => state.players.find(p => p.id === a.playerId)?.name ?? "???").join(" & ")}
+                </p>
+                {roundWinners.map(a => {
+                  const player = state.players.find(p => p.id === a.playerId);
+                  return player && player.winStreak >= 2 ? (
+                    <p key={player.id} className="text-4xl font-bold mt-4">
+                      🔥 {player.name} is on a {player.winStreak}-round streak!
+                    </p>
+                  ) : null;
+                })}
+              </div>
+            )}
+          </div>
+        )}
+
+        {/* FINAL: podium */}
+        {state.phase === "final" && (
+          <div className="w-full max-w-3xl text-center" data-testid="display-final">
+            <h2 className="text-7xl font-black mb-10">{sortedPlayers[0]?.name} WINS!</h2>
+            <ol className="space-y-4">
+              {sortedPlayers.map((p, i) => (
+                <li
+                  key={p.id}
+                  className={`animate-reveal-in flex justify-between rounded-2xl px-8 py-4 text-3xl text-card-text ${
+                    i === 0 ? "bg-winner-bg border-4 border-winner-border" : "bg-card-bg"
+                  }`}
+                  style={{ animationDelay: `${(sortedPlayers.length - 1 - i) * 0.5}s` }}
+                >
+                  <span>{i === 0 && <span role="img" aria-label="Winner">🏆 </span>}{p.name}</span>
+                  <span className="font-bold">{p.score} pts</span>
+                </li>
+              ))}
+            </ol>
+          </div>
+        )}
+      </div>
+    </main>
+  );
+}
@@ -4,62 +4,87 @@ import { useEffect, useState, useRef, use, useCallback } from "react";
 import PartySocket from "partysocket";
 import { useTheme } from "@/hooks/useTheme";
 import { useIsMobile, getInitialIsMobile } from "@/hooks/useIsMobile";
+import { useCountdown } from "@/hooks/useCountdown";
 import AdminPanel from "@/components/AdminPanel";
+import GameAwards from "@/components/GameAwards";
+import GameRecap from "@/components/GameRecap";
+import RecapShare from "@/components/RecapShare";
+import {
+  markOwnAnswer,
+  parseServerMessage,
+  syncState,
+  type AdminOverride,
+  type AdminStateMessage,
+  type ChatMessage,
+  type ClientMessage,
+  type ContentRating,
+  type DuelPromptsMessage,
+  type GameMode,
+  type LobbySettings,
+  type OwnAnswerMessage,
+  type PublicPlayer as Player,
+  type StateMessage as GameState,
+  type StateSync,
+} from "../../../../party/protocol";
+import {
+  describeEndCondition,
+  MAX_ROUNDS,
+  MIN_ROUNDS,
+  parseRoundLimit,
+  type EndCondition,
+} from "../../../../party/end-condition";
+import { explainPoints, scoringPresetOf, type ScoringPresetId } from "../../../../party/scoring";
+import { TRUTH_ID } from "../../../../party/bluff";
+import { MIN_DUEL_PLAYERS } from "../../../../party/duel";
 
 const CHAT_ENABLED = process.env.NEXT_PUBLIC_CHAT_ENABLED === "true";
 
+// Phase timer presets offered to the host (seconds, null = no timer)
+const WRITING_TIMER_OPTIONS: (number | null)[] = [null, 45, 90];
+const VOTING_TIMER_OPTIONS: (number | null)[] = [null, 30, 60];
+
+const GAME_MODE_OPTIONS: { id: GameMode; name: string; description: string }[] = [
+  { id: "roast", name: "Roast", description: "Answer prompts about each other; the funniest answer wins" },
+  { id: "bluff", name: "Bluff", description: "Write fake answers to real facts; score for finding the truth and fooling others" },
+  { id: "duel", name: "Duel", description: "Answer two prompts, each against one other player; everyone else picks the winner" },
+];
+
+// Game length presets; any round count in bounds can also be typed in
+const END_CONDITION_OPTIONS: { id: string; name: string; condition: EndCondition }[] = [
+  { id: "round-3", name: "3", condition: { type: "rounds", rounds: 3 } },
+  { id: "round-5", name: "5", condition: { type: "rounds", rounds: 5 } },
+  { id: "round-10", name: "10", condition: { type: "rounds", rounds: 10 } },
+  { id: "timed-15", name: "15 min", condition: { type: "timed", minutes: 15 } },
+  { id: "timed-30", name: "30 min", condition: { type: "timed", minutes: 30 } },
+  { id: "score-2000", name: "First to 2000", condition: { type: "score", target: 2000 } },
+  { id: "round-endless", name: "Endless", condition: { type: "endless" } },
+];
+
+// Built-in prompt packs (ids must match BUILT_IN_PACKS in party/packs.ts)
+const BUILT_IN_PACK_OPTIONS = [
+  { id: "classic", name: "Classic (adult)" },
+  { id: "sfw", name: "Work safe" },
+  { id: "sfw-only", name: "Work safe (no AI)" },
+];
+
+// Content ratings (ids must match CONTENT_RATINGS in party/prompts.ts)
+const CONTENT_RATING_OPTIONS: { id: ContentRating; name: string }[] = [
+  { id: "family", name: "Family" },
+  { id: "pg13", name: "PG-13" },
+  { id: "adult", name: "Adult" },
+];
+
+// Scoring presets (ids must match SCORING_PRESETS in party/scoring.ts)
+const SCORING_PRESET_OPTIONS: { id: ScoringPresetId; name: string; description: string }[] = [
+  { id: "classic", name: "Classic", description: "100 per vote, 200 for the top answer" },
+  { id: "streaks", name: "Streaks", description: "Win bonus grows 50% per round in a row; ties split it" },
+  { id: "comeback", name: "Comeback", description: "Last place gets 150 extra per round they score; final round counts double" },
+];
+
 // Connection status for UI feedback
 type ConnectionStatus = "connecting" | "connected" | "reconnecting" | "disconnected";
 
-interface Player {
-  id: string;
-  name: string;
-  score: number;
-  winStreak: number;
-  disconnectedAt?: number;
-  isVoyeur?: boolean;
-  // Note: isAdmin is NOT included here - it's not broadcast for security
-  // Admin status is tracked separately via admin-state messages
-}
-
-interface AdminState {
-  exactQuestion: string | null;
-  promptGuidance: string | null;
-}
-
-interface Answer {
-  answerId: number;
-  playerId?: string; // Only present in REVEAL phase
-  answer: string;
-  votes: number;
-  isOwn?: boolean; // Only present in VOTING phase
-}
-
-interface ChatMessage {
-  id: string;
-  playerId: string;
-  playerName: string;
-  text: string;
-  timestamp: number;
-  type: "chat" | "system";
-}
-
-interface GameState {
-  phase: string;
-  round: number;
-  roundLimit: number | null;
-  players: Player[];
-  hostId: string | null;
-  currentPrompt: string;
-  promptSource: "ai" | "fallback" | "admin" | null;
-  theme: string;
-  isGenerating: boolean;
-  isPromptLoading: boolean;
-  answers: Answer[];
-  votes: Record<string, string>;
-  submittedPlayerIds: string[];
-  votedPlayerIds: string[];
-}
+type AdminState = Omit<AdminStateMessage, "type">;
 
 export default function GamePage({
   params,
@@ -71,17 +96,35 @@ export default function GamePage({
   const { roomId } = use(params);
   const { name, admin: adminParam } = use(searchParams);
   const [state, setState] = useState<GameState | null>(null);
+  // Latest state for the socket handler, which applies patches on top of it
+  const syncRef = useRef<StateSync>({ state: null, resyncPending: false });
+  const [ownAnswer, setOwnAnswer] = useState<OwnAnswerMessage | null>(null);
+  const [duelPrompts, setDuelPrompts] = useState<DuelPromptsMessage | null>(null); // Our prompts in a duel round
+  const [blocklist, setBlocklist] = useState<string[]>([]); // Only sent to us while we're host
   const [myId, setMyId] = useState<string | null>(null);
   const [answer, setAnswer] = useState("");
   const [hasSubmitted, setHasSubmitted] = useState(false);
   const [hasVoted, setHasVoted] = useState(false);
   const [theme, setTheme] = useState("");
   const [themeError, setThemeError] = useState<string | null>(null);
-  const [roundLimit, setRoundLimit] = useState<number | null>(null); // Default to endless
   const [copied, setCopied] = useState(false);
+  const [removedReason, setRemovedReason] = useState<"kicked" | "banned" | null>(null);
+  const [sessionRejected, setSessionRejected] = useState<string | null>(null);
+  // Server refused our name (blank or reserved); we stay connected and ask for another
+  const [nameRejected, setNameRejected] = useState<string | null>(null);
+  const [newName, setNewName] = useState("");
+  const nameRef = useRef(name || "Player"); // Name sent on every (re)join, replaced after a rejection
+  const sendJoinRef = useRef<(() => void) | null>(null);
+  const [packError, setPackError] = useState<string | null>(null);
+  // Moderation rejections from the server, shown next to the input that was refused
+  const [answerError, setAnswerError] = useState<string | null>(null);
+  const [chatError, setChatError] = useState<string | null>(null);
   const socketRef = useRef<PartySocket | null>(null);
   const { theme: colorTheme, toggleTheme } = useTheme();
   const isMobile = useIsMobile();
+  const secondsLeft = useCountdown(state?.phaseEndsAt ?? null);
+  const gameSecondsLeft = useCountdown(state?.gameEndsAt ?? null);
+  const [customRounds, setCustomRounds] = useState("");
 
   // Connection state tracking
   const [connectionStatus, setConnectionStatus] = useState<ConnectionStatus>("connecting");
@@ -97,6 +140,8 @@ export default function GamePage({
   const [adminState, setAdminState] = useState<AdminState>({
     exactQuestion: null,
     promptGuidance: null,
+    promptQueue: [],
+    targetCounts: [],
   });
   const [showMobileAdmin, setShowMobileAdmin] = useState(false);
   const [showMobileChat, setShowMobileChat] = useState(false);
@@ -109,13 +154,14 @@ export default function GamePage({
 
   // Cleanup refs for timeouts
   const copyTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const themeUpdateTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
   const mountedRef = useRef(true);
 
   // Track if user is near bottom of chat for auto-scroll behavior
   const isNearBottomRef = useRef(true);
 
   // Guarded send function - only sends if socket is OPEN
-  const send = useCallback((data: object): boolean => {
+  const send = useCallback((data: ClientMessage): boolean => {
     if (socketRef.current?.readyState === WebSocket.OPEN) {
       socketRef.current.send(JSON.stringify(data));
       return true;
@@ -164,6 +210,9 @@ export default function GamePage({
       adminKey = adminParam || null;
     }
 
+    // Signed token the server issues on join; proves this tab owns userId when reconnecting
+    const tokenStorageKey = `shtus-token-${roomId}`;
+
     // eslint-disable-next-line react-hooks/set-state-in-effect -- Intentional: setting initial state when effect runs
     setConnectionStatus("connecting");
 
@@ -175,22 +224,32 @@ export default function GamePage({
 
     socketRef.current = socket;
 
-    socket.onopen = () => {
-      if (!mountedRef.current) return;
-      setConnectionStatus("connected");
-      setMyId(socket.id);
-      // Reset admin status on new connection - will be set if we receive admin-state
-      setIsAdmin(false);
-      setAdminState({ exactQuestion: null, promptGuidance: null });
+    const sendJoin = () => {
       // Include admin key in join message if we have one
-      const joinMessage: { type: string; name: string; adminKey?: string } = {
+      const joinMessage: ClientMessage = {
         type: "join",
-        name: name || "Player",
+        name: nameRef.current,
       };
       if (adminKey) {
         joinMessage.adminKey = adminKey;
       }
+      try {
+        joinMessage.sessionToken = sessionStorage.getItem(tokenStorageKey) ?? undefined;
+      } catch {
+        // sessionStorage unavailable - join without a token (fine for a new seat)
+      }
       socket.send(JSON.stringify(joinMessage));
+    };
+    sendJoinRef.current = sendJoin;
+
+    socket.onopen = () => {
+      if (!mountedRef.current) return;
+      setConnectionStatus("connected");
+      setMyId(socket.id);
+      // Reset admin status on new connection - will be set if we receive admin-state
+      setIsAdmin(false);
+      setAdminState({ exactQuestion: null, promptGuidance: null, promptQueue: [], targetCounts: [] });
+      sendJoin();
 
       // Clean up URL to prevent sharing name/admin params when copying browser URL
       // This ensures shared links don't include the original player's identity
@@ -217,25 +276,67 @@ export default function GamePage({
     socket.onmessage = (e) => {
       if (!mountedRef.current) return;
 
-      // Guard against malformed payloads
-      let data;
-      try {
-        data = JSON.parse(e.data);
-      } catch {
-        // Ignore malformed messages
+      // Guard against malformed payloads (e.g. a server on a newer protocol mid-deploy)
+      const parsed = parseServerMessage(e.data);
+      if (!parsed.ok) {
+        console.warn("Ignoring unexpected server message:", parsed.error);
         return;
       }
+      const data = parsed.message;
 
-      if (data.type === "state") {
-        setState(data);
+      if (data.type === "state" || data.type === "state-patch") {
         // Note: isAdmin is NOT broadcast in player state for security
         // Admin status is determined by receiving admin-state messages
+        const { sync, requestResync } = syncState(syncRef.current, data);
+        if (requestResync) {
+          socket.send(JSON.stringify({ type: "resync" } satisfies ClientMessage));
+        }
+        if (sync.state !== syncRef.current.state) {
+          setState(sync.state);
+        }
+        syncRef.current = sync;
+      } else if (data.type === "own-answer") {
+        setOwnAnswer(data);
+      } else if (data.type === "duel-prompts") {
+        setDuelPrompts(data);
+      } else if (data.type === "blocklist") {
+        setBlocklist(data.entries);
+      } else if (data.type === "session") {
+        try {
+          sessionStorage.setItem(tokenStorageKey, data.token);
+        } catch {
+          // sessionStorage unavailable - this tab can't reclaim its seat after a reload
+        }
+      } else if (data.type === "prompt-pack-rejected") {
+        setPackError(data.reason);
+      } else if (data.type === "error") {
+        if (data.code === "session-rejected") {
+          // Someone else's seat (or our token was lost) - stop PartySocket retrying the same id
+          setSessionRejected(data.message);
+          setConnectionStatus("disconnected");
+          socket.close();
+        } else if (data.code === "name-rejected") {
+          setNameRejected(data.message);
+        } else if (data.code === "answer-rejected" || data.code === "answer-is-truth") {
+          setAnswerError(data.message);
+          // Undo the optimistic submit so the player can edit and resend
+          setHasSubmitted(false);
+        } else if (data.code === "chat-rejected") {
+          setChatError(data.message);
+        }
+      } else if (data.type === "removed") {
+        // Host/admin removed us - stop PartySocket from auto-reconnecting
+        setRemovedReason(data.reason === "banned" ? "banned" : "kicked");
+        setConnectionStatus("disconnected");
+        socket.close();
       } else if (data.type === "admin-state") {
         // Receiving admin-state means we are an admin (server only sends to validated admins)
         setIsAdmin(true);
         setAdminState({
           exactQuestion: data.exactQuestion,
           promptGuidance: data.promptGuidance,
+          promptQueue: data.promptQueue ?? [],
+          targetCounts: data.targetCounts ?? [],
         });
       } else if (data.type === "chat_history") {
         // Deduplicate by ID in case of reconnection
@@ -273,14 +374,25 @@ export default function GamePage({
     // Note: connectionStatus intentionally excluded - handlers use ref to avoid recreating socket
   }, [roomId, name, adminParam]);
 
+  // Our prompts in a duel round, and the one we're answering now
+  const myDuelPrompts = state?.mode === "duel" && duelPrompts?.round === state.round ? duelPrompts.prompts : [];
+  const nextDuelPrompt = myDuelPrompts.find((p) => !p.answered);
+
   // Reset local state on phase change
   useEffect(() => {
     if (state?.phase === "writing") {
       // eslint-disable-next-line react-hooks/set-state-in-effect -- Intentional: reset local input when entering new writing phase
       setAnswer("");
+      setAnswerError(null);
     }
   }, [state?.phase, state?.round]);
 
+  // A new duel prompt gets a fresh input
+  useEffect(() => {
+    // eslint-disable-next-line react-hooks/set-state-in-effect -- Intentional: clear the answer once the previous prompt was accepted
+    setAnswer("");
+  }, [nextDuelPrompt?.matchupId]);
+
   // Sync hasSubmitted with server state (derived from submittedPlayerIds)
   useEffect(() => {
     if (state?.phase === "writing" && myId) {
@@ -393,9 +505,23 @@ export default function GamePage({
       if (copyTimeoutRef.current) {
         clearTimeout(copyTimeoutRef.current);
       }
+      if (themeUpdateTimeoutRef.current) {
+        clearTimeout(themeUpdateTimeoutRef.current);
+      }
     };
   }, []);
 
+  // Lobby settings live on the server; non-hosts mirror the host's theme so the
+  // input is already filled in if host is handed to them
+  const serverTheme = state?.theme;
+  const serverHostId = state?.hostId;
+  useEffect(() => {
+    if (serverTheme !== undefined && serverHostId !== myId) {
+      // eslint-disable-next-line react-hooks/set-state-in-effect -- Intentional: sync local input with server settings
+      setTheme(serverTheme);
+    }
+  }, [serverTheme, serverHostId, myId]);
+
   const sendChat = () => {
     if (chatInput.trim() && canSend) {
       send({ type: "chat", text: chatInput.trim() });
@@ -410,8 +536,8 @@ export default function GamePage({
     }
   };
 
-  // Theme validation: allow letters, numbers, spaces, and common punctuation
-  const THEME_REGEX = /^[a-zA-Z0-9\s.,!?'"()-]+$/;
+  // Theme validation: allow letters and numbers in any script, spaces, and common punctuation
+  const THEME_REGEX = /^[\p{L}\p{M}\p{N}\s.,!?'"()-]+$/u;
   const MIN_THEME_LENGTH = 3;
 
   const validateTheme = (value: string): string | null => {
@@ -422,13 +548,50 @@ export default function GamePage({
     return null;
   };
 
+  const updateSettings = (settings: LobbySettings) => {
+    if (canSend) send({ type: "update-settings", ...settings });
+  };
+
   const handleThemeChange = (value: string) => {
     setTheme(value);
+    const error = validateTheme(value);
     if (themeError) {
-      setThemeError(validateTheme(value));
+      setThemeError(error);
+    }
+    // Debounce so other players see the theme without a message per keystroke
+    if (themeUpdateTimeoutRef.current) {
+      clearTimeout(themeUpdateTimeoutRef.current);
+    }
+    if (!error) {
+      themeUpdateTimeoutRef.current = setTimeout(() => {
+        updateSettings({ theme: value.trim() });
+      }, 400);
     }
   };
 
+  const selectPromptPack = (packId: string) => {
+    setPackError(null);
+    if (canSend) send({ type: "set-prompt-pack", packId });
+  };
+
+  // Upload a pack file: JSON ({ name, prompts, packOnly }) or plain text (one prompt per line)
+  const uploadPromptPack = async (file: File) => {
+    setPackError(null);
+    const text = await file.text();
+    let pack: unknown;
+    if (file.name.toLowerCase().endsWith(".json")) {
+      try {
+        pack = JSON.parse(text);
+      } catch {
+        setPackError("Couldn't read that file as JSON");
+        return;
+      }
+    } else {
+      pack = { name: file.name.replace(/\.[^.]+$/, ""), prompts: text };
+    }
+    if (canSend) send({ type: "set-prompt-pack", pack });
+  };
+
   const startGame = () => {
     const trimmedTheme = theme.trim();
     const error = validateTheme(trimmedTheme);
@@ -437,7 +600,8 @@ export default function GamePage({
       return;
     }
     setThemeError(null);
-    if (canSend) send({ type: "start", theme: trimmedTheme || "random funny questions", roundLimit });
+    // Round limit and timers were already sent via update-settings
+    if (canSend) send({ type: "start", theme: trimmedTheme || "random funny questions" });
   };
   const endWriting = () => {
     if (canSend) send({ type: "end-writing" });
@@ -448,12 +612,21 @@ export default function GamePage({
   const nextRound = () => {
     if (canSend) send({ type: "next-round" });
   };
+  const revealNext = () => {
+    if (canSend) send({ type: "reveal-next" });
+  };
   const toggleVoyeur = () => {
     if (canSend) send({ type: "toggle-voyeur" });
   };
   const submitAnswer = () => {
     if (answer.trim() && canSend && !state?.isPromptLoading) {
-      send({ type: "answer", answer: answer.trim() });
+      if (nextDuelPrompt) {
+        // The server resends our prompts once it has the answer, which moves us on to the next one
+        send({ type: "answer", answer: answer.trim(), matchupId: nextDuelPrompt.matchupId });
+        if (myDuelPrompts.filter((p) => !p.answered).length > 1) return;
+      } else {
+        send({ type: "answer", answer: answer.trim() });
+      }
       // Optimistic update - server state will confirm via submittedPlayerIds
       setHasSubmitted(true);
     }
@@ -468,9 +641,29 @@ export default function GamePage({
   const restart = () => {
     if (canSend) send({ type: "restart" });
   };
-  const setAdminOverride = (data: { exactQuestion?: string | null; promptGuidance?: string | null }) => {
+  const setRecapHideAuthors = (hideAuthors: boolean) => {
+    if (canSend) send({ type: "set-recap-options", hideAuthors });
+  };
+  const transferHost = (player: Player) => {
+    if (canSend) send({ type: "transfer-host", playerId: player.id });
+  };
+  const kickPlayer = (player: Player) => {
+    if (canSend) send({ type: "kick", playerId: player.id });
+  };
+  const banPlayer = (player: Player) => {
+    if (canSend && window.confirm(`Ban ${player.name} from this room? They won't be able to rejoin.`)) {
+      send({ type: "ban", playerId: player.id });
+    }
+  };
+  const setAdminOverride = (data: AdminOverride) => {
     if (canSend) send({ type: "admin-set-override", ...data });
   };
+  const reorderPrompts = (promptIds: string[]) => {
+    if (canSend) send({ type: "admin-reorder-prompts", promptIds });
+  };
+  const discardPrompt = (promptId: string) => {
+    if (canSend) send({ type: "admin-discard-prompt", promptId });
+  };
 
   // Focus trap handler for modal drawers
   const handleFocusTrap = (e: React.KeyboardEvent<HTMLDivElement>) => {
@@ -493,6 +686,54 @@ export default function GamePage({
     }
   };
 
+  // Countdown for timed phases (hidden when the host didn't set a timer)
+  const renderCountdown = () => {
+    if (secondsLeft === null) return null;
+    return (
+      <p className="text-center mb-2" data-testid="phase-countdown">
+        <span
+          className={`text-sm font-bold px-3 py-1 rounded-full ${
+            secondsLeft <= 10 ? "bg-red-500 text-white animate-pulse" : "bg-progress-bg text-card-muted"
+          }`}
+          role="timer"
+          aria-label={`${secondsLeft} seconds left`}
+        >
+          ⏱ {secondsLeft}s
+        </span>
+      </p>
+    );
+  };
+
+  // Timer preset selector for lobby settings
+  const renderTimerSelector = (
+    label: string,
+    testIdPrefix: string,
+    options: (number | null)[],
+    setting: "writingTimeLimit" | "votingTimeLimit"
+  ) => (
+    <div className="mb-4">
+      <span className="block text-sm font-medium text-label-text mb-2">{label}</span>
+      <div className="flex gap-2" role="group" aria-label={`Select ${label.toLowerCase()}`} data-testid={`${testIdPrefix}-selector`}>
+        {options.map((seconds) => (
+          <button
+            key={seconds ?? "off"}
+            data-testid={`${testIdPrefix}-${seconds ?? "off"}`}
+            onClick={() => updateSettings({ [setting]: seconds })}
+            disabled={!canSend}
+            className={`px-4 py-2 rounded-full font-bold transition-colors disabled:opacity-50 ${
+              state?.[setting] === seconds
+                ? "bg-purple-600 text-white"
+                : "bg-card-border text-label-text hover:bg-btn-inactive-hover"
+            }`}
+            aria-pressed={state?.[setting] === seconds}
+          >
+            {seconds === null ? "Off" : `${seconds}s`}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+
   // Connection status banner
   const renderConnectionBanner = () => {
     if (connectionStatus === "connected" || !state) return null;
@@ -524,6 +765,80 @@ export default function GamePage({
     );
   };
 
+  if (removedReason) {
+    return (
+      <main id="main" className="min-h-screen bg-gradient-to-br from-gradient-from via-gradient-via to-gradient-to flex items-center justify-center p-4">
+        <div className="bg-card-bg backdrop-blur rounded-3xl shadow-2xl p-8 w-full max-w-md text-center" role="alert" data-testid="removed-notice">
+          <h2 className="text-2xl font-bold mb-2">
+            {removedReason === "banned" ? "You were banned from this room" : "You were removed from this room"}
+          </h2>
+          <p className="text-card-muted">
+            {removedReason === "banned" ? "The host has banned you from rejoining." : "The host removed you from the game."}
+          </p>
+        </div>
+      </main>
+    );
+  }
+
+  if (sessionRejected) {
+    return (
+      <main id="main" className="min-h-screen bg-gradient-to-br from-gradient-from via-gradient-via to-gradient-to flex items-center justify-center p-4">
+        <div className="bg-card-bg backdrop-blur rounded-3xl shadow-2xl p-8 w-full max-w-md text-center" role="alert" data-testid="session-rejected">
+          <h2 className="text-2xl font-bold mb-2">Couldn&apos;t rejoin your seat</h2>
+          <p className="text-card-muted mb-6">{sessionRejected}</p>
+          <button
+            onClick={() => {
+              // Fresh id and no token: the server treats us as a new player
+              sessionStorage.removeItem(`shtus-session-${roomId}`);
+              sessionStorage.removeItem(`shtus-token-${roomId}`);
+              window.location.reload();
+            }}
+            className="px-6 py-3 bg-purple-600 text-white rounded-xl font-bold hover:bg-purple-700 transition-colors"
+          >
+            Join as a new player
+          </button>
+        </div>
+      </main>
+    );
+  }
+
+  if (nameRejected) {
+    const submitName = () => {
+      if (!newName.trim()) return;
+      nameRef.current = newName.trim();
+      setNameRejected(null);
+      sendJoinRef.current?.();
+    };
+    return (
+      <main id="main" className="min-h-screen bg-gradient-to-br from-gradient-from via-gradient-via to-gradient-to flex items-center justify-center p-4">
+        <div className="bg-card-bg backdrop-blur rounded-3xl shadow-2xl p-8 w-full max-w-md text-center" data-testid="name-rejected">
+          <h2 className="text-2xl font-bold mb-2">Pick another name</h2>
+          <p className="text-card-muted mb-6" role="alert">{nameRejected}</p>
+          <label htmlFor="new-name" className="sr-only">Your Name</label>
+          <input
+            id="new-name"
+            type="text"
+            placeholder="Your Name"
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            onKeyDown={(e) => e.key === "Enter" && submitName()}
+            className="w-full px-4 py-3 mb-4 rounded-xl border-2 border-input-border focus:border-purple-500 focus:outline-none text-lg bg-input-bg text-card-text"
+            maxLength={20}
+            autoComplete="name"
+            data-testid="name-input"
+          />
+          <button
+            onClick={submitName}
+            disabled={!newName.trim() || !canSend}
+            className="px-6 py-3 bg-purple-600 text-white rounded-xl font-bold hover:bg-purple-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Join
+          </button>
+        </div>
+      </main>
+    );
+  }
+
   if (!state) {
     return (
       <main id="main" className="min-h-screen bg-gradient-to-br from-gradient-from via-gradient-via to-gradient-to flex items-center justify-center" aria-busy="true">
@@ -533,12 +848,29 @@ export default function GamePage({
   }
 
   const isHost = myId === state.hostId;
+  const scoringPreset = scoringPresetOf(state.scoringRules);
+  const endConditionLabel = describeEndCondition(state.endCondition);
   const myPlayer = (state.players ?? []).find(p => p.id === myId);
   const isVoyeur = myPlayer?.isVoyeur ?? false;
   const players = state.players ?? [];
   const activePlayers = players.filter(p => !p.isVoyeur && !p.disconnectedAt);
   const sortedPlayers = [...players].sort((a, b) => b.score - a.score);
-  const answers = state.answers ?? [];
+  const answers = markOwnAnswer(state, ownAnswer).answers;
+  // The server unveils REVEAL step by step; winners are only called out at the end
+  const revealComplete = state.revealStep >= state.revealSteps;
+  // In bluff mode the truth isn't anyone's answer, so it can't win the round
+  const lies = answers.filter((a) => !a.isTruth);
+  const revealMaxVotes = Math.max(0, ...lies.map((a) => a.votes));
+  const roundWinners = revealComplete && revealMaxVotes > 0 ? lies.filter((a) => a.votes === revealMaxVotes) : [];
+  const truthFinders = players.filter((p) => state.votes[p.id] === TRUTH_ID);
+  // Each duel matchup is voted on by everyone but the two players in it
+  const minPlayers = state.mode === "duel" ? MIN_DUEL_PLAYERS : 2;
+  const inMatchup = state.matchup !== null && myDuelPrompts.some((p) => p.matchupId === state.matchup?.index);
+  const matchupLabel = state.matchup && (
+    <p className="text-card-muted text-sm text-center mb-1" data-testid="matchup-label">
+      Matchup {state.matchup.index + 1} of {state.matchup.count}
+    </p>
+  );
 
   // Render streak badge (shows when winStreak >= 2)
   const streakBadge = (player: Player) =>
@@ -548,6 +880,44 @@ export default function GamePage({
       </span>
     ) : null;
 
+  // Host-only controls shown next to other players (hand over host, kick, ban)
+  const renderModerationControls = (p: Player) => {
+    if (!isHost || p.id === myId) return null;
+    return (
+      <span className="ml-auto flex gap-1">
+        {!p.isVoyeur && !p.disconnectedAt && (
+          <button
+            onClick={() => transferHost(p)}
+            disabled={!canSend}
+            data-testid={`make-host-${p.id}`}
+            className="text-xs px-2 py-0.5 rounded-full bg-card-border text-card-muted hover:bg-purple-600 hover:text-white transition-colors disabled:opacity-50"
+            aria-label={`Make ${p.name} the host`}
+          >
+            Make host
+          </button>
+        )}
+        <button
+          onClick={() => kickPlayer(p)}
+          disabled={!canSend}
+          data-testid={`kick-${p.id}`}
+          className="text-xs px-2 py-0.5 rounded-full bg-card-border text-card-muted hover:bg-red-500 hover:text-white transition-colors disabled:opacity-50"
+          aria-label={`Kick ${p.name}`}
+        >
+          Kick
+        </button>
+        <button
+          onClick={() => banPlayer(p)}
+          disabled={!canSend}
+          data-testid={`ban-${p.id}`}
+          className="text-xs px-2 py-0.5 rounded-full bg-card-border text-card-muted hover:bg-red-700 hover:text-white transition-colors disabled:opacity-50"
+          aria-label={`Ban ${p.name}`}
+        >
+          Ban
+        </button>
+      </span>
+    );
+  };
+
   const copyLink = () => {
     const url = `${window.location.origin}/join/${roomId}`;
     navigator.clipboard.writeText(url);
@@ -625,7 +995,10 @@ export default function GamePage({
             ref={chatInputRef}
             type="text"
             value={chatInput}
-            onChange={(e) => setChatInput(e.target.value.slice(0, 150))}
+            onChange={(e) => {
+              setChatInput(e.target.value.slice(0, 150));
+              setChatError(null);
+            }}
             onKeyDown={handleChatKeyDown}
             placeholder={canSend ? "Type a message..." : "Reconnecting..."}
             disabled={!canSend}
@@ -641,6 +1014,11 @@ export default function GamePage({
             →
           </button>
         </div>
+        {chatError && (
+          <p className="text-red-500 text-xs mt-1" role="alert" data-testid="chat-error">
+            {chatError}
+          </p>
+        )}
         <div className="text-xs text-card-muted mt-1 text-right">{chatInput.length}/150</div>
       </div>
     </div>
@@ -656,7 +1034,7 @@ export default function GamePage({
       <div aria-live="assertive" aria-atomic="true" className="sr-only">
         {state.phase === "writing" && `Round ${state.round}. ${state.currentPrompt}. Write your answer now.`}
         {state.phase === "voting" && "Vote for your favorite answer."}
-        {state.phase === "reveal" && "Results are in."}
+        {state.phase === "reveal" && revealComplete && "Results are in."}
         {state.phase === "final" && `Game over. ${sortedPlayers[0]?.name} wins!`}
       </div>
 
@@ -676,6 +1054,18 @@ export default function GamePage({
             >
               {copied ? "Copied!" : "Copy Link"}
             </button>
+            {state.phase === "lobby" && (
+              <a
+                href={`/display/${roomId}`}
+                target="_blank"
+                rel="noopener"
+                className="bg-accent-bg backdrop-blur px-3 py-2 rounded-full text-white font-bold hover:bg-black/70 transition-colors"
+                aria-label="Open the TV display in a new tab"
+                data-testid="display-link"
+              >
+                📺
+              </a>
+            )}
             <button
               onClick={toggleVoyeur}
               disabled={!canSend}
@@ -700,6 +1090,8 @@ export default function GamePage({
           {state.round > 0 && (
             <div className="bg-accent-bg backdrop-blur px-4 py-2 rounded-full text-white font-bold" data-testid="round-indicator">
               Round {state.round}{state.roundLimit ? `/${state.roundLimit}` : ''}
+              {gameSecondsLeft !== null && ` · ${Math.floor(gameSecondsLeft / 60)}:${String(gameSecondsLeft % 60).padStart(2, "0")} left`}
+              {state.endCondition.type === "score" && ` · first to ${state.endCondition.target}`}
             </div>
           )}
         </div>
@@ -724,7 +1116,7 @@ export default function GamePage({
                     <li
                       key={p.id}
                       data-testid={`player-${p.id}`}
-                      className={`p-3 rounded-xl ${
+                      className={`p-3 rounded-xl flex items-center gap-1 ${
                         p.disconnectedAt
                           ? "opacity-40 bg-progress-bg italic"
                           : p.isVoyeur
@@ -738,12 +1130,37 @@ export default function GamePage({
                       {p.name} {streakBadge(p)}
                       {p.disconnectedAt && <span className="ml-2 text-muted-extra" role="img" aria-label="Reconnecting"> ⏳</span>}
                       {p.isVoyeur && !p.disconnectedAt && <span className="ml-2 text-card-muted" role="img" aria-label="Watching"> 👁️</span>}
+                      {renderModerationControls(p)}
                     </li>
                   ))}
                 </ul>
 
                 {isHost && (
                   <>
+                    <div className="mb-4">
+                      <span className="block text-sm font-medium text-label-text mb-2">Game mode</span>
+                      <div className="flex gap-2" role="group" aria-label="Select game mode" data-testid="mode-selector">
+                        {GAME_MODE_OPTIONS.map((mode) => (
+                          <button
+                            key={mode.id}
+                            data-testid={`mode-${mode.id}`}
+                            onClick={() => updateSettings({ mode: mode.id })}
+                            disabled={!canSend}
+                            className={`px-4 py-2 rounded-full font-bold transition-colors disabled:opacity-50 ${
+                              state.mode === mode.id
+                                ? "bg-purple-600 text-white"
+                                : "bg-card-border text-label-text hover:bg-btn-inactive-hover"
+                            }`}
+                            aria-pressed={state.mode === mode.id}
+                          >
+                            {mode.name}
+                          </button>
+                        ))}
+                      </div>
+                      <p className="text-xs text-muted-extra mt-1">
+                        {GAME_MODE_OPTIONS.find(m => m.id === state.mode)?.description}
+                      </p>
+                    </div>
                     <div className="mb-4">
                       <label htmlFor="theme-input" className="block text-sm font-medium text-label-text mb-2">
                         Game Theme (AI will generate questions)
@@ -771,47 +1188,218 @@ export default function GamePage({
                       )}
                     </div>
                     <div className="mb-4">
-                      <span className="block text-sm font-medium text-label-text mb-2">Rounds</span>
-                      <div className="flex gap-2" role="group" aria-label="Select number of rounds" data-testid="round-selector">
-                        {[3, 5, 10].map((num) => (
+                      <span className="block text-sm font-medium text-label-text mb-2">Game length</span>
+                      <div className="flex flex-wrap gap-2" role="group" aria-label="Select game length" data-testid="round-selector">
+                        {END_CONDITION_OPTIONS.map((option) => (
+                          <button
+                            key={option.id}
+                            data-testid={option.id}
+                            onClick={() => updateSettings({ endCondition: option.condition })}
+                            disabled={!canSend}
+                            className={`px-4 py-2 rounded-full font-bold transition-colors disabled:opacity-50 ${
+                              endConditionLabel === describeEndCondition(option.condition)
+                                ? "bg-purple-600 text-white"
+                                : "bg-card-border text-label-text hover:bg-btn-inactive-hover"
+                            }`}
+                            aria-pressed={endConditionLabel === describeEndCondition(option.condition)}
+                          >
+                            {option.name}
+                          </button>
+                        ))}
+                      </div>
+                      <label className="flex items-center gap-2 text-sm text-label-text mt-2">
+                        Or play
+                        <input
+                          type="number"
+                          min={MIN_ROUNDS}
+                          max={MAX_ROUNDS}
+                          value={customRounds}
+                          onChange={(e) => {
+                            setCustomRounds(e.target.value);
+                            const rounds = parseRoundLimit(e.target.value);
+                            if (rounds !== null) updateSettings({ roundLimit: rounds });
+                          }}
+                          disabled={!canSend}
+                          className="w-20 px-2 py-1 rounded-lg border border-input-border bg-input-bg text-card-text"
+                          data-testid="round-custom"
+                        />
+                        rounds
+                      </label>
+                      <p className="text-xs text-muted-extra mt-1">{endConditionLabel}</p>
+                    </div>
+                    {renderTimerSelector("Writing timer", "writing-timer", WRITING_TIMER_OPTIONS, "writingTimeLimit")}
+                    {renderTimerSelector("Voting timer", "voting-timer", VOTING_TIMER_OPTIONS, "votingTimeLimit")}
+                    <div className="mb-4">
+                      <span className="block text-sm font-medium text-label-text mb-2">Content rating</span>
+                      <div className="flex gap-2" role="group" aria-label="Select content rating" data-testid="rating-selector">
+                        {CONTENT_RATING_OPTIONS.map((rating) => (
+                          <button
+                            key={rating.id}
+                            data-testid={`rating-${rating.id}`}
+                            onClick={() => updateSettings({ contentRating: rating.id })}
+                            disabled={!canSend}
+                            className={`px-4 py-2 rounded-full font-bold transition-colors disabled:opacity-50 ${
+                              state.contentRating === rating.id
+                                ? "bg-purple-600 text-white"
+                                : "bg-card-border text-label-text hover:bg-btn-inactive-hover"
+                            }`}
+                            aria-pressed={state.contentRating === rating.id}
+                          >
+                            {rating.name}
+                          </button>
+                        ))}
+                      </div>
+                    </div>
+                    <div className="mb-4">
+                      <span className="block text-sm font-medium text-label-text mb-2">Scoring</span>
+                      {state.mode === "bluff" ? (
+                        // Bluff scores the same way whatever the rules say (scoreBluffRound)
+                        <p className="text-xs text-muted-extra" data-testid="scoring-fixed">
+                          Bluff uses fixed points: 200 for finding the truth, 100 for each player your lie fools
+                        </p>
+                      ) : (
+                        <>
+                          <div className="flex gap-2" role="group" aria-label="Select scoring rules" data-testid="scoring-selector">
+                            {SCORING_PRESET_OPTIONS.map((preset) => (
+                              <button
+                                key={preset.id}
+                                data-testid={`scoring-${preset.id}`}
+                                onClick={() => updateSettings({ scoring: preset.id })}
+                                disabled={!canSend}
+                                className={`px-4 py-2 rounded-full font-bold transition-colors disabled:opacity-50 ${
+                                  scoringPreset === preset.id
+                                    ? "bg-purple-600 text-white"
+                                    : "bg-card-border text-label-text hover:bg-btn-inactive-hover"
+                                }`}
+                                aria-pressed={scoringPreset === preset.id}
+                              >
+                                {preset.name}
+                              </button>
+                            ))}
+                          </div>
+                          <p className="text-xs text-muted-extra mt-1">
+                            {SCORING_PRESET_OPTIONS.find(p => p.id === scoringPreset)?.description ?? "Custom scoring rules"}
+                          </p>
+                        </>
+                      )}
+                    </div>
+                    <div className="mb-4">
+                      <span className="block text-sm font-medium text-label-text mb-2">Prompt pack</span>
+                      <div className="flex flex-wrap gap-2" role="group" aria-label="Select prompt pack" data-testid="pack-selector">
+                        {BUILT_IN_PACK_OPTIONS.map((pack) => (
                           <button
-                            key={num}
-                            data-testid={`round-${num}`}
-                            onClick={() => setRoundLimit(num)}
-                            className={`px-4 py-2 rounded-full font-bold transition-colors ${
-                              roundLimit === num
+                            key={pack.id}
+                            data-testid={`pack-${pack.id}`}
+                            onClick={() => selectPromptPack(pack.id)}
+                            disabled={!canSend}
+                            className={`px-4 py-2 rounded-full font-bold transition-colors disabled:opacity-50 ${
+                              state.promptPack.id === pack.id
                                 ? "bg-purple-600 text-white"
                                 : "bg-card-border text-label-text hover:bg-btn-inactive-hover"
                             }`}
-                            aria-pressed={roundLimit === num}
+                            aria-pressed={state.promptPack.id === pack.id}
                           >
-                            {num}
+                            {pack.name}
                           </button>
                         ))}
-                        <button
-                          data-testid="round-endless"
-                          onClick={() => setRoundLimit(null)}
-                          className={`px-4 py-2 rounded-full font-bold transition-colors ${
-                            roundLimit === null
+                        <label
+                          className={`px-4 py-2 rounded-full font-bold transition-colors cursor-pointer ${
+                            state.promptPack.id === "custom"
                               ? "bg-purple-600 text-white"
                               : "bg-card-border text-label-text hover:bg-btn-inactive-hover"
                           }`}
-                          aria-pressed={roundLimit === null}
                         >
-                          Endless
-                        </button>
+                          {state.promptPack.id === "custom" ? `${state.promptPack.name} (${state.promptPack.promptCount})` : "Upload..."}
+                          <input
+                            type="file"
+                            accept=".json,.txt,application/json,text/plain"
+                            className="sr-only"
+                            data-testid="pack-upload"
+                            disabled={!canSend}
+                            onChange={(e) => {
+                              const file = e.target.files?.[0];
+                              if (file) uploadPromptPack(file);
+                              e.target.value = ""; // Allow re-uploading the same file
+                            }}
+                          />
+                        </label>
                       </div>
+                      {packError && (
+                        <p className="text-red-500 text-sm mt-1" role="alert">
+                          {packError}
+                        </p>
+                      )}
+                    </div>
+                    <div className="mb-4">
+                      <label htmlFor="blocklist-input" className="block text-sm font-medium text-label-text mb-2">
+                        Blocked words (one per line, /regex/ allowed)
+                      </label>
+                      <textarea
+                        id="blocklist-input"
+                        data-testid="blocklist-input"
+                        // Remount when the server list changes so the draft shows what was saved
+                        key={blocklist.join("\n")}
+                        defaultValue={blocklist.join("\n")}
+                        onBlur={(e) => updateSettings({ blocklist: e.target.value })}
+                        disabled={!canSend}
+                        className="w-full px-4 py-2 rounded-xl border-2 border-input-border focus:border-purple-500 focus:outline-none bg-input-bg text-card-text text-sm h-20 resize-none"
+                      />
+                      <label className="flex items-center gap-2 mt-2 text-sm text-label-text">
+                        <input
+                          type="checkbox"
+                          data-testid="ai-moderation-toggle"
+                          checked={state.moderation.aiCheck}
+                          onChange={(e) => updateSettings({ aiModeration: e.target.checked })}
+                          disabled={!canSend}
+                        />
+                        Also check answers and chat with AI
+                      </label>
                     </div>
                   </>
                 )}
 
+                {!isHost && (
+                  <dl className="mb-4 p-3 bg-progress-bg rounded-xl text-sm grid grid-cols-2 gap-1" data-testid="lobby-settings">
+                    <dt className="text-card-muted">Mode</dt>
+                    <dd className="font-medium text-card-text">{GAME_MODE_OPTIONS.find(m => m.id === state.mode)?.name}</dd>
+                    <dt className="text-card-muted">Theme</dt>
+                    <dd className="font-medium text-card-text">{state.theme || "Random funny questions"}</dd>
+                    <dt className="text-card-muted">Game length</dt>
+                    <dd className="font-medium text-card-text">{endConditionLabel}</dd>
+                    <dt className="text-card-muted">Timers</dt>
+                    <dd className="font-medium text-card-text">
+                      {state.writingTimeLimit ? `${state.writingTimeLimit}s writing` : "Untimed writing"},{" "}
+                      {state.votingTimeLimit ? `${state.votingTimeLimit}s voting` : "untimed voting"}
+                    </dd>
+                    <dt className="text-card-muted">Prompts</dt>
+                    <dd className="font-medium text-card-text">
+                      {state.promptPack.name}{state.promptPack.packOnly ? " (no AI)" : ""}
+                    </dd>
+                    <dt className="text-card-muted">Moderation</dt>
+                    <dd className="font-medium text-card-text">
+                      {state.moderation.blockedCount} blocked word{state.moderation.blockedCount === 1 ? "" : "s"}
+                      {state.moderation.aiCheck ? ", AI check" : ""}
+                    </dd>
+                    <dt className="text-card-muted">Scoring</dt>
+                    <dd className="font-medium text-card-text">
+                      {state.mode === "bluff"
+                        ? "Fixed (bluff)"
+                        : SCORING_PRESET_OPTIONS.find(p => p.id === scoringPreset)?.name ?? "Custom"}
+                    </dd>
+                    <dt className="text-card-muted">Rating</dt>
+                    <dd className="font-medium text-card-text">
+                      {CONTENT_RATING_OPTIONS.find(r => r.id === state.contentRating)?.name}
+                    </dd>
+                  </dl>
+                )}
+
                 <p className="text-center text-card-muted mb-4">
-                  {activePlayers.length < 2
-                    ? `Need at least 2 active players (${activePlayers.length} active${players.length > activePlayers.length ? `, ${players.length - activePlayers.length} watching` : ""})`
+                  {activePlayers.length < minPlayers
+                    ? `Need at least ${minPlayers} active players (${activePlayers.length} active${players.length > activePlayers.length ? `, ${players.length - activePlayers.length} watching` : ""})`
                     : `${activePlayers.length} players ready!${players.length > activePlayers.length ? ` (${players.length - activePlayers.length} watching)` : ""}`}
                 </p>
 
-                {isHost && activePlayers.length >= 2 && (
+                {isHost && activePlayers.length >= minPlayers && (
                   <button
                     data-testid="start-game-btn"
                     onClick={startGame}
@@ -834,7 +1422,7 @@ export default function GamePage({
             <h2 className="text-3xl font-black text-card-text">{state.currentPrompt}</h2>
             {state.promptSource && (
               <span className="inline-block mt-2 text-xs px-2 py-0.5 rounded-full bg-progress-bg text-muted-extra">
-                {state.promptSource === "ai" ? "🤖 grok" : state.promptSource === "admin" ? "👑 host" : "📦 classic"}
+                {state.promptSource === "ai" ? "🤖 grok" : state.promptSource === "admin" ? "👑 host" : state.promptSource === "fact" ? "🧠 fact" : "📦 classic"}
               </span>
             )}
           </div>
@@ -850,14 +1438,22 @@ export default function GamePage({
               </div>
             ) : (
               <>
-                <h2 className="text-xl font-bold text-center mb-1" data-testid="current-prompt">{state.currentPrompt}</h2>
+                {nextDuelPrompt && (
+                  <p className="text-card-muted text-sm text-center mb-1" data-testid="duel-prompt-progress">
+                    Prompt {myDuelPrompts.indexOf(nextDuelPrompt) + 1} of {myDuelPrompts.length}
+                  </p>
+                )}
+                <h2 className="text-xl font-bold text-center mb-1" data-testid="current-prompt">
+                  {nextDuelPrompt?.prompt ?? state.currentPrompt}
+                </h2>
                 {state.promptSource && (
                   <p className="text-center mb-2">
                     <span className="text-xs px-2 py-0.5 rounded-full bg-progress-bg text-muted-extra">
-                      {state.promptSource === "ai" ? "🤖 grok" : state.promptSource === "admin" ? "👑 host" : "📦 classic"}
+                      {state.promptSource === "ai" ? "🤖 grok" : state.promptSource === "admin" ? "👑 host" : state.promptSource === "fact" ? "🧠 fact" : "📦 classic"}
                     </span>
                   </p>
                 )}
+                {renderCountdown()}
               </>
             )}
             {isVoyeur ? (
@@ -879,13 +1475,22 @@ export default function GamePage({
                   id="answer-input"
                   data-testid="answer-input"
                   value={answer}
-                  onChange={(e) => setAnswer(e.target.value.slice(0, 100))}
-                  placeholder="Type your answer..."
+                  onChange={(e) => {
+                    setAnswer(e.target.value.slice(0, 100));
+                    setAnswerError(null);
+                  }}
+                  placeholder={state.mode === "bluff" ? "Write a believable lie..." : "Type your answer..."}
                   className="w-full p-4 rounded-xl border-2 border-input-border focus:border-purple-500 focus:outline-none text-lg resize-none h-32 bg-input-bg text-card-text"
                   maxLength={100}
                   disabled={state.isPromptLoading}
-                  aria-describedby="char-count"
+                  aria-describedby={answerError ? "answer-error char-count" : "char-count"}
+                  aria-invalid={!!answerError}
                 />
+                {answerError && (
+                  <p id="answer-error" className="text-red-500 text-sm mt-1" role="alert" data-testid="answer-error">
+                    {answerError}
+                  </p>
+                )}
                 <div className="flex justify-between items-center mt-2">
                   <span id="char-count" className="text-card-muted" aria-live="polite">{answer.length}/100 characters</span>
                   <button
@@ -948,14 +1553,16 @@ export default function GamePage({
         {/* VOTING */}
         {state.phase === "voting" && (
           <div className="bg-card-bg backdrop-blur rounded-3xl shadow-2xl p-6" data-testid="voting-phase">
+            {matchupLabel}
             <h2 className="text-xl font-bold text-center mb-1" data-testid="current-prompt">{state.currentPrompt}</h2>
             {state.promptSource && (
               <p className="text-center mb-3">
                 <span className="text-xs px-2 py-0.5 rounded-full bg-progress-bg text-muted-extra">
-                  {state.promptSource === "ai" ? "🤖 grok" : state.promptSource === "admin" ? "👑 host" : "📦 classic"}
+                  {state.promptSource === "ai" ? "🤖 grok" : state.promptSource === "admin" ? "👑 host" : state.promptSource === "fact" ? "🧠 fact" : "📦 classic"}
                 </span>
               </p>
             )}
+            {renderCountdown()}
             {isVoyeur ? (
               <>
                 <div className="text-center py-4 mb-4">
@@ -979,6 +1586,11 @@ export default function GamePage({
                   Rejoin as player
                 </button>
               </>
+            ) : inMatchup ? (
+              <div className="text-center py-8" role="status" data-testid="in-matchup">
+                <div className="text-6xl mb-4" role="img" aria-label="Swords">⚔️</div>
+                <p className="text-card-muted">This is your matchup! Everyone else is picking the winner...</p>
+              </div>
             ) : !hasVoted ? (
               <div className="space-y-3" data-testid="vote-options">
                 {answers
@@ -1007,7 +1619,7 @@ export default function GamePage({
             {/* Voting progress */}
             <div className="mt-4 p-3 bg-progress-bg rounded-xl">
               <p className="text-sm text-card-muted mb-2">
-                Voted: {(state.votedPlayerIds ?? []).length}/{activePlayers.length}
+                Voted: {(state.votedPlayerIds ?? []).length}/{state.matchup ? Math.max(0, activePlayers.length - 2) : activePlayers.length}
                 {players.length > activePlayers.length && (
                   <span className="text-muted-extra"> ({players.length - activePlayers.length} watching)</span>
                 )}
@@ -1048,33 +1660,80 @@ export default function GamePage({
         {/* REVEAL */}
         {state.phase === "reveal" && (
           <div className="bg-card-bg backdrop-blur rounded-3xl shadow-2xl p-6" data-testid="reveal-phase">
+            {matchupLabel}
             <h2 className="text-xl font-bold text-center mb-4">Results</h2>
-            <div className="space-y-3">
-              {/* Sort a copy to avoid mutating state, use answerId as stable key */}
-              {[...answers]
-                .sort((a, b) => b.votes - a.votes)
-                .map((a) => {
-                  const player = players.find((p) => p.id === a.playerId);
-                  const maxVotes = Math.max(...answers.map((x) => x.votes));
-                  const isWinner = a.votes === maxVotes && a.votes > 0;
-                  return (
-                    <div
-                      key={a.answerId}
-                      className={`p-4 rounded-xl ${isWinner ? "bg-winner-bg border-2 border-winner-border" : "bg-progress-bg"}`}
-                    >
-                      <div className="font-bold text-lg">{a.answer}</div>
-                      <div className="flex justify-between text-sm text-card-muted mt-1">
-                        <span>- {player?.name} {player && streakBadge(player)}</span>
-                        <span>
-                          {a.votes} vote{a.votes !== 1 ? "s" : ""}{" "}
-                          {isWinner && a.votes > 0 && <span className="text-yellow-600">+{a.votes * 100 + 200}pts</span>}
-                          {!isWinner && a.votes > 0 && <span className="text-purple-600">+{a.votes * 100}pts</span>}
-                        </span>
-                      </div>
+            {answers.length === 0 && !revealComplete && (
+              <p className="text-center text-card-muted py-4 animate-pulse" role="status">Drumroll...</p>
+            )}
+            {/* Answers arrive one at a time, fewest votes first; the author follows each one */}
+            <ol className="space-y-3" data-testid="reveal-list">
+              {answers.map((a) => {
+                const player = players.find((p) => p.id === a.playerId);
+                const isWinner = roundWinners.includes(a);
+                const points = state.pointsBreakdown.find((b) => b.playerId === a.playerId);
+                return (
+                  <li
+                    key={a.answerId}
+                    className={`animate-reveal-in p-4 rounded-xl ${isWinner ? "bg-winner-bg border-2 border-winner-border" : "bg-progress-bg"}`}
+                  >
+                    <div className="font-bold text-lg">{a.answer}</div>
+                    <div className="flex justify-between text-sm text-card-muted mt-1">
+                      {a.isTruth ? (
+                        <span className="animate-reveal-in font-bold text-green-600" data-testid="reveal-truth">✅ The truth</span>
+                      ) : player ? (
+                        <span className="animate-reveal-in">- {player.name} {streakBadge(player)}</span>
+                      ) : (
+                        <span>- ???</span>
+                      )}
+                      <span>
+                        {a.votes} vote{a.votes !== 1 ? "s" : ""}{" "}
+                        {points && <span className={isWinner ? "text-yellow-600" : "text-purple-600"}>+{points.total}pts</span>}
+                      </span>
                     </div>
-                  );
+                    {points && (
+                      <div className="animate-reveal-in text-xs text-muted-extra text-right mt-1" data-testid="points-breakdown">
+                        {explainPoints(points)}
+                      </div>
+                    )}
+                    {a.isTruth && revealComplete && truthFinders.length > 0 && (
+                      <div className="animate-reveal-in text-xs text-muted-extra text-right mt-1">
+                        Found by {truthFinders.map((p) => p.name).join(", ")}
+                      </div>
+                    )}
+                  </li>
+                );
+              })}
+            </ol>
+            {revealComplete && roundWinners.length > 0 && (
+              <div className="animate-reveal-in mt-4 text-center" data-testid="round-winner">
+                <p className="text-2xl font-black">
+                  🏆 {roundWinners.map((a) => players.find((p) => p.id === a.playerId)?.name ?? "???").join(" & ")} won the round!
+                </p>
+                {roundWinners.map((a) => {
+                  const player = players.find((p) => p.id === a.playerId);
+                  return player && player.winStreak >= 2 ? (
+                    <p key={player.id} className="text-lg font-bold text-orange-500 mt-1">
+                      🔥 {player.name} is on a {player.winStreak}-round streak!
+                    </p>
+                  ) : null;
                 })}
-            </div>
+              </div>
+            )}
+            {revealComplete && lies.length > 0 && roundWinners.length === 0 && (
+              <p className="animate-reveal-in mt-4 text-center text-card-muted">
+                {state.mode === "bluff" ? "Nobody got fooled this round." : "No votes this round."}
+              </p>
+            )}
+            {isHost && !revealComplete && (
+              <button
+                data-testid="reveal-next-btn"
+                onClick={revealNext}
+                disabled={!canSend}
+                className="w-full mt-4 py-2 text-purple-600 font-medium hover:underline disabled:opacity-50"
+              >
+                Reveal next ▸
+              </button>
+            )}
             {isHost && (
               <button
                 data-testid="next-round-btn"
@@ -1082,7 +1741,7 @@ export default function GamePage({
                 disabled={!canSend}
                 className="w-full mt-4 py-3 bg-gradient-to-r from-purple-600 to-pink-500 text-white font-bold rounded-xl hover:scale-105 transition-transform disabled:opacity-50 disabled:hover:scale-100"
               >
-                NEXT ROUND →
+                {state.matchup && state.matchup.index < state.matchup.count - 1 ? "NEXT MATCHUP →" : "NEXT ROUND →"}
               </button>
             )}
           </div>
@@ -1116,6 +1775,7 @@ export default function GamePage({
                 </div>
               ))}
             </div>
+            {state.awards && <GameAwards awards={state.awards} currentPlayerId={myId} />}
             {isHost && (
               <button
                 data-testid="play-again-btn"
@@ -1126,6 +1786,15 @@ export default function GamePage({
                 PLAY AGAIN
               </button>
             )}
+            {state.recap && (
+              <RecapShare
+                recap={state.recap}
+                isHost={isHost}
+                disabled={!canSend}
+                onHideAuthorsChange={setRecapHideAuthors}
+              />
+            )}
+            {state.archive && <GameRecap rounds={state.archive} />}
           </div>
         )}
 
@@ -1143,7 +1812,11 @@ export default function GamePage({
             <AdminPanel
               exactQuestion={adminState.exactQuestion}
               promptGuidance={adminState.promptGuidance}
+              promptQueue={adminState.promptQueue}
+              targetCounts={adminState.targetCounts}
               onSetOverride={setAdminOverride}
+              onReorderPrompts={reorderPrompts}
+              onDiscardPrompt={discardPrompt}
             />
           </div>
         )}
@@ -1192,7 +1865,11 @@ export default function GamePage({
                   <AdminPanel
                     exactQuestion={adminState.exactQuestion}
                     promptGuidance={adminState.promptGuidance}
+                    promptQueue={adminState.promptQueue}
+                    targetCounts={adminState.targetCounts}
                     onSetOverride={setAdminOverride}
+                    onReorderPrompts={reorderPrompts}
+                    onDiscardPrompt={discardPrompt}
                   />
                 </div>
               </div>
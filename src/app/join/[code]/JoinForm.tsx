@@ -2,6 +2,7 @@
 
 import { useState, useEffect } from "react";
 import { useRouter } from "next/navigation";
+import PartySocket from "partysocket";
 
 // Name storage key - shared with home page
 const NAME_STORAGE_KEY = "shtus-player-name";
@@ -23,6 +24,27 @@ function setStoredName(name: string): void {
   }
 }
 
+interface RoomStatus {
+  exists: boolean;
+  playerCount: number;
+  isGameInProgress: boolean;
+}
+
+// Ask the party server whether the room has anyone in it yet
+// Returns null if the server can't be reached so joining isn't blocked by a flaky check
+async function fetchRoomStatus(code: string): Promise<RoomStatus | null> {
+  try {
+    const res = await PartySocket.fetch({
+      host: process.env.NEXT_PUBLIC_PARTYKIT_HOST || "localhost:1999",
+      room: code,
+    });
+    if (!res.ok) return null;
+    return (await res.json()) as RoomStatus;
+  } catch {
+    return null;
+  }
+}
+
 interface JoinFormProps {
   code: string;
 }
@@ -42,7 +64,7 @@ export default function JoinForm({ code }: JoinFormProps) {
     }
   }, []);
 
-  const handleSubmit = (e: React.FormEvent) => {
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     const trimmedName = name.trim();
 
@@ -58,6 +80,14 @@ export default function JoinForm({ code }: JoinFormProps) {
 
     setNameError(null);
     setIsNavigating(true);
+
+    const status = await fetchRoomStatus(code);
+    if (status && !status.exists) {
+      setNameError("No game found with this code");
+      setIsNavigating(false);
+      return;
+    }
+
     setStoredName(trimmedName);
     router.push(`/game/${code}?name=${encodeURIComponent(trimmedName)}`);
   };
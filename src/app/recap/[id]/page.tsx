@@ -0,0 +1,172 @@
+import type { Metadata } from "next";
+import Link from "next/link";
+import { cache } from "react";
+import PartySocket from "partysocket";
+import { isGameRecap, type GameRecap } from "../../../../party/protocol";
+import { parseRecapId, recapWinners, roundLabel } from "../../../../party/recap";
+
+interface RecapPageProps {
+  params: Promise<{ id: string }>;
+}
+
+// Recaps live in the storage of the room that played the game; the id says which room
+// Cached so metadata and the page share one request
+const fetchRecap = cache(async (id: string): Promise<GameRecap | null> => {
+  const parsed = parseRecapId(id);
+  if (!parsed) return null;
+  try {
+    const res = await PartySocket.fetch(
+      {
+        host: process.env.NEXT_PUBLIC_PARTYKIT_HOST || "localhost:1999",
+        room: parsed.roomId,
+        query: { recap: id },
+      },
+      { cache: "no-store" }
+    );
+    if (!res.ok) return null;
+    const data: unknown = await res.json();
+    return isGameRecap(data) ? data : null;
+  } catch {
+    return null;
+  }
+});
+
+function recapSummary(recap: GameRecap): string {
+  const winner = recap.standings[0];
+  const rounds = `${recap.rounds.length} round${recap.rounds.length !== 1 ? "s" : ""}`;
+  return winner ? `${winner.name} won with ${winner.score} pts after ${rounds} of Shtus.` : `${rounds} of Shtus.`;
+}
+
+// Share previews show who won; answers stay on the page
+export async function generateMetadata({ params }: RecapPageProps): Promise<Metadata> {
+  const { id } = await params;
+  const recap = await fetchRecap(id);
+
+  if (!recap) {
+    return { title: "Recap Not Found - Shtus", robots: { index: false } };
+  }
+
+  const title = `Shtus Recap${recap.theme ? ` - ${recap.theme}` : ""}`;
+  const description = recapSummary(recap);
+  return {
+    title,
+    description,
+    robots: { index: false },
+    openGraph: {
+      title,
+      description,
+      type: "website",
+    },
+    twitter: {
+      card: "summary",
+      title,
+      description,
+    },
+  };
+}
+
+export default async function RecapPage({ params }: RecapPageProps) {
+  const { id } = await params;
+  const recap = await fetchRecap(id);
+
+  if (!recap) {
+    return (
+      <main id="main" className="min-h-screen bg-gradient-to-br from-gradient-from via-gradient-via to-gradient-to flex items-center justify-center p-4">
+        <div className="bg-card-bg backdrop-blur rounded-3xl shadow-2xl p-8 w-full max-w-md text-center">
+          <h1 className="text-4xl font-black bg-gradient-to-r from-purple-800 to-pink-700 dark:from-purple-400 dark:to-pink-400 bg-clip-text text-transparent mb-4">
+            Recap Not Found
+          </h1>
+          <p className="text-card-muted mb-6">
+            This recap doesn&apos;t exist or has expired. Rooms only keep their most recent games.
+          </p>
+          <Link
+            href="/"
+            className="inline-block py-3 px-6 bg-gradient-to-r from-purple-600 to-pink-500 text-white font-bold rounded-xl hover:scale-105 transition-transform"
+          >
+            Go to Home
+          </Link>
+        </div>
+      </main>
+    );
+  }
+
+  return (
+    <main id="main" className="min-h-screen bg-gradient-to-br from-gradient-from via-gradient-via to-gradient-to p-4" data-testid="recap-page">
+      <div className="max-w-lg mx-auto space-y-4">
+        <header className="text-center text-white py-4">
+          <h1 className="text-5xl font-black">SHTUS</h1>
+          <p className="text-lg mt-2">
+            Game recap{recap.theme && <>: <span className="font-bold">{recap.theme}</span></>}
+          </p>
+          <p className="text-sm opacity-80">
+            <time dateTime={new Date(recap.finishedAt).toISOString()}>
+              {new Date(recap.finishedAt).toISOString().slice(0, 10)}
+            </time>
+          </p>
+        </header>
+
+        <section className="bg-card-bg backdrop-blur rounded-3xl shadow-2xl p-6" aria-labelledby="standings-heading">
+          <h2 id="standings-heading" className="text-2xl font-black text-center mb-4" data-testid="recap-winner">
+            {recap.standings[0] ? `${recap.standings[0].name} WINS!` : "Final standings"}
+          </h2>
+          <ol className="space-y-2">
+            {recap.standings.map((p, i) => (
+              <li
+                key={`${p.name}-${i}`}
+                className={`p-3 rounded-xl flex justify-between ${i === 0 ? "bg-winner-bg border-2 border-winner-border" : "bg-progress-bg"}`}
+              >
+                <span>
+                  {i === 0 && <span role="img" aria-label="Winner">🏆 </span>}
+                  {p.name}
+                </span>
+                <span className="font-bold">{p.score} pts</span>
+              </li>
+            ))}
+          </ol>
+        </section>
+
+        {recap.rounds.map((round, i) => {
+          const winners = recapWinners(round);
+          return (
+            <section key={i} className="bg-card-bg backdrop-blur rounded-3xl shadow-2xl p-6" aria-label={roundLabel(round)}>
+              <p className="text-sm text-card-muted mb-1">{roundLabel(round)}</p>
+              <h3 className="text-lg font-bold mb-3">{round.prompt}</h3>
+              {round.truth && (
+                <p className="text-sm mb-3">
+                  The truth: <span className="font-bold">{round.truth.answer}</span>
+                  <span className="text-card-muted"> · {round.truth.votes} found it</span>
+                </p>
+              )}
+              {winners.length === 0 ? (
+                <p className="text-card-muted">No winning answer this round.</p>
+              ) : (
+                <ul className="space-y-2">
+                  {winners.map((a, i) => (
+                    <li key={i} className="p-3 rounded-xl bg-winner-bg border-2 border-winner-border">
+                      <div className="font-bold">{a.answer}</div>
+                      <div className="flex justify-between text-sm text-card-muted mt-1">
+                        <span>{a.author !== undefined ? `- ${a.author}` : ""}</span>
+                        <span>
+                          {a.votes} vote{a.votes !== 1 ? "s" : ""}
+                        </span>
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </section>
+          );
+        })}
+
+        <div className="text-center pb-8">
+          <Link
+            href="/"
+            className="inline-block py-3 px-6 bg-gradient-to-r from-purple-600 to-pink-500 text-white font-bold rounded-xl hover:scale-105 transition-transform"
+          >
+            Play Shtus
+          </Link>
+        </div>
+      </div>
+    </main>
+  );
+}
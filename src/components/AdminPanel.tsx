@@ -1,14 +1,16 @@
 "use client";
 
 import { useState, useRef, useCallback, useEffect } from "react";
+import type { AdminOverride, AdminStateMessage, QueuedPrompt } from "../../party/protocol";
 
 interface AdminPanelProps {
   exactQuestion: string | null;
   promptGuidance: string | null;
-  onSetOverride: (data: {
-    exactQuestion?: string | null;
-    promptGuidance?: string | null;
-  }) => void;
+  promptQueue: QueuedPrompt[];
+  targetCounts: AdminStateMessage["targetCounts"];
+  onSetOverride: (data: AdminOverride) => void;
+  onReorderPrompts: (promptIds: string[]) => void;
+  onDiscardPrompt: (promptId: string) => void;
 }
 
 // Throttle duration in ms
@@ -19,7 +21,11 @@ const CONFIRM_TIMEOUT_MS = 3000;
 export default function AdminPanel({
   exactQuestion,
   promptGuidance,
+  promptQueue,
+  targetCounts,
   onSetOverride,
+  onReorderPrompts,
+  onDiscardPrompt,
 }: AdminPanelProps) {
   const [isCollapsed, setIsCollapsed] = useState(false);
   // Local input values - these are the values being typed
@@ -135,6 +141,21 @@ export default function AdminPanel({
     });
   };
 
+  // Swap a queued prompt with its neighbour (direction -1 = up, 1 = down)
+  const handleMovePrompt = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= promptQueue.length) return;
+    throttledAction(() => {
+      const ids = promptQueue.map(q => q.id);
+      [ids[index], ids[target]] = [ids[target], ids[index]];
+      onReorderPrompts(ids);
+    });
+  };
+
+  const handleDiscardPrompt = (promptId: string) => {
+    throttledAction(() => onDiscardPrompt(promptId));
+  };
+
   if (isCollapsed) {
     return (
       <button
@@ -244,6 +265,70 @@ export default function AdminPanel({
           </div>
         </div>
 
+        {/* Prompt Queue Section */}
+        <div>
+          <p className="text-sm font-medium text-label-text mb-2">UPCOMING PROMPTS</p>
+          {promptQueue.length === 0 ? (
+            <p className="text-sm text-card-muted">Queue is empty</p>
+          ) : (
+            <ol className="space-y-2" data-testid="admin-prompt-queue">
+              {promptQueue.map((queued, index) => (
+                <li key={queued.id} className="flex items-start gap-2 text-sm text-card-text">
+                  <span className="flex-1">
+                    {queued.prompt}
+                    {queued.source === "fallback" && (
+                      <span className="ml-1 text-xs text-card-muted">(fallback)</span>
+                    )}
+                  </span>
+                  <div className="flex gap-1 shrink-0">
+                    <button
+                      onClick={() => handleMovePrompt(index, -1)}
+                      disabled={index === 0 || isThrottled}
+                      className="px-1 text-card-muted hover:text-card-text disabled:opacity-30"
+                      aria-label="Move prompt up"
+                    >
+                      ↑
+                    </button>
+                    <button
+                      onClick={() => handleMovePrompt(index, 1)}
+                      disabled={index === promptQueue.length - 1 || isThrottled}
+                      className="px-1 text-card-muted hover:text-card-text disabled:opacity-30"
+                      aria-label="Move prompt down"
+                    >
+                      ↓
+                    </button>
+                    <button
+                      onClick={() => handleDiscardPrompt(queued.id)}
+                      disabled={isThrottled}
+                      className="px-1 text-red-500 hover:text-red-600 disabled:opacity-30"
+                      aria-label="Discard prompt"
+                    >
+                      ×
+                    </button>
+                  </div>
+                </li>
+              ))}
+            </ol>
+          )}
+        </div>
+
+        {/* Roast Targets Section */}
+        <div>
+          <p className="text-sm font-medium text-label-text mb-2">ROAST TARGETS</p>
+          {targetCounts.length === 0 ? (
+            <p className="text-sm text-card-muted">No players yet</p>
+          ) : (
+            <ul className="space-y-1 text-sm text-card-text" data-testid="admin-target-counts">
+              {[...targetCounts].sort((a, b) => a.count - b.count).map((target) => (
+                <li key={target.playerId} className="flex justify-between">
+                  <span className="truncate">{target.name}</span>
+                  <span className="text-card-muted">{target.count} prompt{target.count === 1 ? "" : "s"}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
         {/* Status Section */}
         <div className="border-t border-card-border pt-4">
           <p className="text-sm font-medium text-label-text mb-2">STATUS</p>
@@ -0,0 +1,39 @@
+"use client";
+
+import type { Award } from "../../party/protocol";
+
+interface GameAwardsProps {
+  awards: Award[];
+  currentPlayerId: string | null;
+}
+
+// End-of-game superlatives from the server; awards nobody qualified for are never sent
+export default function GameAwards({ awards, currentPlayerId }: GameAwardsProps) {
+  if (awards.length === 0) return null;
+
+  return (
+    <section className="mb-6" aria-labelledby="awards-heading" data-testid="game-awards">
+      <h3 id="awards-heading" className="text-lg font-bold text-center mb-3">Awards</h3>
+      <ul className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+        {awards.map((award, i) => {
+          const isMine = award.winners.some((w) => w.playerId === currentPlayerId);
+          return (
+            <li
+              key={award.id}
+              className={`animate-reveal-in p-3 rounded-xl ${isMine ? "bg-winner-bg border-2 border-winner-border" : "bg-progress-bg"}`}
+              style={{ animationDelay: `${i * 0.3}s` }}
+              data-testid={`award-${award.id}`}
+            >
+              <div className="font-bold">
+                <span role="img" aria-hidden="true">{award.emoji} </span>
+                {award.title}
+              </div>
+              <div className="font-bold text-purple-600">{award.winners.map((w) => w.name).join(" & ")}</div>
+              <div className="text-sm text-card-muted">{award.detail}</div>
+            </li>
+          );
+        })}
+      </ul>
+    </section>
+  );
+}
@@ -0,0 +1,104 @@
+"use client";
+
+import { useState } from "react";
+import type { ArchivedRound } from "../../party/protocol";
+import { roundLabel } from "../../party/recap";
+
+interface GameRecapProps {
+  rounds: ArchivedRound[];
+}
+
+// Round-by-round look back at a finished game: every answer, who wrote it and who voted for it
+export default function GameRecap({ rounds }: GameRecapProps) {
+  const [index, setIndex] = useState(0);
+
+  if (rounds.length === 0) return null;
+
+  // Rounds can shrink if a new archive arrives; clamp rather than reset
+  const current = rounds[Math.min(index, rounds.length - 1)];
+  const position = rounds.indexOf(current);
+  const answers = [...current.answers].sort((a, b) => b.votes - a.votes);
+  const maxVotes = Math.max(0, ...answers.map((a) => a.votes));
+
+  return (
+    <section className="mt-6" aria-label="Game recap" data-testid="game-recap">
+      <h3 className="text-lg font-bold text-center mb-3">Recap</h3>
+
+      <div className="flex items-center justify-between mb-3">
+        <button
+          onClick={() => setIndex(position - 1)}
+          disabled={position === 0}
+          className="px-3 py-1 rounded-lg bg-btn-inactive hover:bg-btn-inactive-hover disabled:opacity-40"
+          aria-label="Previous round"
+        >
+          ←
+        </button>
+        <div className="flex flex-wrap justify-center gap-1" role="tablist" aria-label="Rounds">
+          {rounds.map((r, i) => (
+            <button
+              key={i}
+              role="tab"
+              aria-selected={i === position}
+              aria-label={roundLabel(r)}
+              onClick={() => setIndex(i)}
+              className={`min-w-8 h-8 px-1 rounded-full text-sm font-bold ${
+                i === position ? "bg-purple-600 text-white" : "bg-progress-bg text-card-muted hover:bg-btn-inactive-hover"
+              }`}
+            >
+              {r.matchup !== undefined ? `${r.round}.${r.matchup}` : r.round}
+            </button>
+          ))}
+        </div>
+        <button
+          onClick={() => setIndex(position + 1)}
+          disabled={position === rounds.length - 1}
+          className="px-3 py-1 rounded-lg bg-btn-inactive hover:bg-btn-inactive-hover disabled:opacity-40"
+          aria-label="Next round"
+        >
+          →
+        </button>
+      </div>
+
+      <div role="tabpanel" data-testid={`recap-round-${position + 1}`}>
+        <p className="font-bold text-center mb-3">{current.prompt}</p>
+        {current.truth && (
+          <p className="text-center text-sm mb-3" data-testid="recap-truth">
+            The truth: <span className="font-bold">{current.truth.answer}</span>
+            {current.truth.voters.length > 0 && (
+              <span className="text-card-muted"> · found by {current.truth.voters.map((v) => v.name).join(", ")}</span>
+            )}
+          </p>
+        )}
+        {answers.length === 0 ? (
+          <p className="text-center text-card-muted">Nobody answered this round.</p>
+        ) : (
+          <ul className="space-y-2">
+            {answers.map((a) => {
+              const isWinner = a.votes === maxVotes && a.votes > 0;
+              return (
+                <li
+                  key={a.playerId}
+                  className={`p-3 rounded-xl ${isWinner ? "bg-winner-bg border-2 border-winner-border" : "bg-progress-bg"}`}
+                >
+                  <div className="font-bold">{a.answer}</div>
+                  <div className="flex justify-between text-sm text-card-muted mt-1">
+                    <span>- {a.name}</span>
+                    <span>
+                      {a.votes} vote{a.votes !== 1 ? "s" : ""}
+                      {a.points > 0 && <span className={isWinner ? "text-yellow-600" : "text-purple-600"}> +{a.points}pts</span>}
+                    </span>
+                  </div>
+                  {a.voters.length > 0 && (
+                    <div className="text-xs text-muted-extra mt-1">
+                      Voted by {a.voters.map((v) => v.name).join(", ")}
+                    </div>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </div>
+    </section>
+  );
+}
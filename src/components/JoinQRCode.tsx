@@ -0,0 +1,37 @@
+"use client";
+
+import { useMemo } from "react";
+import { encode } from "uqr";
+
+interface JoinQRCodeProps {
+  url: string;
+  className?: string;
+}
+
+// QR code as an inline SVG: one path of dark modules, scaled by the container
+export default function JoinQRCode({ url, className }: JoinQRCodeProps) {
+  const { size, path } = useMemo(() => {
+    const qr = encode(url, { border: 2 });
+    const segments: string[] = [];
+    qr.data.forEach((row, y) => {
+      row.forEach((dark, x) => {
+        if (dark) segments.push(`M${x} ${y}h1v1h-1z`);
+      });
+    });
+    return { size: qr.size, path: segments.join("") };
+  }, [url]);
+
+  return (
+    <svg
+      viewBox={`0 0 ${size} ${size}`}
+      className={className}
+      shapeRendering="crispEdges"
+      role="img"
+      aria-label={`QR code for ${url}`}
+      data-testid="join-qr"
+    >
+      <rect width={size} height={size} fill="#ffffff" />
+      <path d={path} fill="#000000" />
+    </svg>
+  );
+}
@@ -0,0 +1,79 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import type { GameRecap } from "../../party/protocol";
+import { recapToMarkdown } from "../../party/recap";
+
+interface RecapShareProps {
+  recap: GameRecap;
+  isHost: boolean;
+  disabled: boolean;
+  onHideAuthorsChange: (hideAuthors: boolean) => void;
+}
+
+// Hand the file to the browser as a download; nothing is sent anywhere
+function download(filename: string, content: string, type: string) {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+// Share link and exports for the saved recap; the host decides whether it names authors
+export default function RecapShare({ recap, isHost, disabled, onHideAuthorsChange }: RecapShareProps) {
+  const [copied, setCopied] = useState(false);
+  const copyTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+
+  useEffect(() => () => {
+    if (copyTimeoutRef.current) clearTimeout(copyTimeoutRef.current);
+  }, []);
+
+  const copyShareLink = () => {
+    navigator.clipboard.writeText(`${window.location.origin}/recap/${recap.id}`);
+    setCopied(true);
+    if (copyTimeoutRef.current) clearTimeout(copyTimeoutRef.current);
+    copyTimeoutRef.current = setTimeout(() => setCopied(false), 2000);
+  };
+
+  const buttonClass = "flex-1 py-2 px-3 rounded-lg bg-btn-inactive hover:bg-btn-inactive-hover font-bold text-sm";
+
+  return (
+    <section className="mt-6" aria-label="Share recap" data-testid="recap-share">
+      <div className="flex gap-2">
+        <button onClick={copyShareLink} className={buttonClass} data-testid="copy-recap-link">
+          {copied ? "Copied!" : "🔗 Share recap"}
+        </button>
+        <button
+          onClick={() => download(`shtus-${recap.id}.json`, JSON.stringify(recap, null, 2), "application/json")}
+          className={buttonClass}
+          data-testid="export-json"
+        >
+          JSON
+        </button>
+        <button
+          onClick={() => download(`shtus-${recap.id}.md`, recapToMarkdown(recap), "text/markdown")}
+          className={buttonClass}
+          data-testid="export-markdown"
+        >
+          Markdown
+        </button>
+      </div>
+      {isHost ? (
+        <label className="flex items-center gap-2 mt-3 text-sm text-card-muted">
+          <input
+            type="checkbox"
+            checked={recap.hideAuthors}
+            disabled={disabled}
+            onChange={(e) => onHideAuthorsChange(e.target.checked)}
+            data-testid="recap-hide-authors"
+          />
+          Hide who wrote each answer in the shared recap
+        </label>
+      ) : (
+        recap.hideAuthors && <p className="mt-3 text-sm text-card-muted">The host has hidden answer authors in the shared recap.</p>
+      )}
+    </section>
+  );
+}
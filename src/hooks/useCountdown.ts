@@ -0,0 +1,21 @@
+"use client";
+
+import { useState, useEffect } from "react";
+
+// Seconds remaining until a server deadline (epoch ms), or null when there is no deadline
+// Ticks every 250ms so the display never lags a full second behind
+export function useCountdown(endsAt: number | null): number | null {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    if (endsAt === null) return;
+
+    // eslint-disable-next-line react-hooks/set-state-in-effect -- Intentional: resync immediately when a new deadline arrives
+    setNow(Date.now());
+    const interval = setInterval(() => setNow(Date.now()), 250);
+    return () => clearInterval(interval);
+  }, [endsAt]);
+
+  if (endsAt === null) return null;
+  return Math.max(0, Math.ceil((endsAt - now) / 1000));
+}
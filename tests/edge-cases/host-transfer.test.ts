@@ -86,16 +86,17 @@ describe("Host Transfer", () => {
       expect(state.hostId).toBe(newPlayer.id);
     });
 
-    it("reconnecting host regains host status if current host is disconnected", () => {
+    it("reconnecting host regains host status if current host is disconnected", async () => {
       const host = createMockPlayer(server, "OriginalHost");
       const player2 = createMockPlayer(server, "Player2");
+      await server.settle();
 
       // Both disconnect
       player2.disconnect();
       host.disconnect();
 
       // Host reconnects
-      host.reconnect();
+      await host.reconnect();
 
       const state = server.getState() as GameState;
       expect(state.hostId).toBe(host.id);
@@ -156,4 +157,41 @@ describe("Host Transfer", () => {
       expect(state.hostId).toBe(player3.id);
     });
   });
+
+  describe("Manual transfer (transfer-host)", () => {
+    it("hands host to the chosen connected player", () => {
+      const host = createMockPlayer(server, "Host");
+      const player2 = createMockPlayer(server, "Player2");
+
+      server.sendMessage(host.conn, { type: "transfer-host", playerId: player2.id });
+
+      const state = server.getState() as GameState;
+      expect(state.hostId).toBe(player2.id);
+    });
+
+    it("ignores transfer from a non-host", () => {
+      const host = createMockPlayer(server, "Host");
+      const player2 = createMockPlayer(server, "Player2");
+
+      server.sendMessage(player2.conn, { type: "transfer-host", playerId: player2.id });
+
+      const state = server.getState() as GameState;
+      expect(state.hostId).toBe(host.id);
+    });
+
+    it("refuses to transfer to a voyeur or disconnected player", () => {
+      const host = createMockPlayer(server, "Host");
+      const voyeur = createMockPlayer(server, "Voyeur");
+      const gone = createMockPlayer(server, "Gone");
+      voyeur.toggleVoyeur();
+      gone.disconnect();
+
+      server.sendMessage(host.conn, { type: "transfer-host", playerId: voyeur.id });
+      server.sendMessage(host.conn, { type: "transfer-host", playerId: gone.id });
+      server.sendMessage(host.conn, { type: "transfer-host", playerId: "no-such-player" });
+
+      const state = server.getState() as GameState;
+      expect(state.hostId).toBe(host.id);
+    });
+  });
 });
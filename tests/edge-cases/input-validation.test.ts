@@ -31,22 +31,21 @@ describe("Input Validation", () => {
       expect(state.players[player.id].name.length).toBeLessThanOrEqual(20);
     });
 
-    it("handles empty name by using default", () => {
+    it("rejects an empty name so the player can pick one", () => {
       const player = createMockPlayer(server, "");
 
       const state = server.getState() as GameState;
-      // Should have some default name
-      expect(state.players[player.id].name.length).toBeGreaterThan(0);
+      expect(state.players[player.id]).toBeUndefined();
+      expect(player.conn.getAllMessages()).toContainEqual(expect.objectContaining({ type: "error", code: "name-rejected" }));
     });
 
-    it("handles whitespace-only name", () => {
-      const player = createMockPlayer(server, "   ");
+    it("rejects names that are only whitespace or invisible characters", () => {
+      const spaces = createMockPlayer(server, "   ");
+      const invisible = createMockPlayer(server, "\u200B\u3164\u200F");
 
       const state = server.getState() as GameState;
-      // Should be trimmed or have default
-      expect(state.players[player.id].name.trim().length).toBeGreaterThanOrEqual(
-        0
-      );
+      expect(state.players[spaces.id]).toBeUndefined();
+      expect(state.players[invisible.id]).toBeUndefined();
     });
 
     it("handles duplicate names by adding suffix", () => {
@@ -242,22 +241,36 @@ describe("Input Validation", () => {
     it("ignores unknown message types", () => {
       const initialState = server.getState() as GameState;
 
-      server.sendMessage(host.conn, { type: "unknown-action" });
+      server.sendRaw(host.conn, JSON.stringify({ type: "unknown-action" }));
 
       const afterState = server.getState() as GameState;
       expect(afterState.phase).toBe(initialState.phase);
+      expect(host.conn.getLastMessage()).toEqual({
+        type: "error",
+        code: "invalid-message",
+        message: "Unknown message type: unknown-action",
+      });
     });
 
     it("handles malformed messages gracefully", () => {
       const initialState = server.getState() as GameState;
 
-      // Send invalid JSON directly (simulate malformed message)
-      // Note: The test harness parses JSON, so we test with missing required fields
-      server.sendMessage(host.conn, { type: "answer" }); // Missing answer field
+      server.sendRaw(host.conn, JSON.stringify({ type: "answer" })); // Missing answer field
 
       const afterState = server.getState() as GameState;
       // State should be unchanged
       expect(afterState.phase).toBe(initialState.phase);
+      expect(host.conn.getLastMessage()).toMatchObject({ type: "error", code: "invalid-message" });
+    });
+
+    it("replies with an error to invalid JSON", () => {
+      server.sendRaw(host.conn, "{not json");
+
+      expect(host.conn.getLastMessage()).toEqual({
+        type: "error",
+        code: "invalid-message",
+        message: "Message is not valid JSON",
+      });
     });
 
     it("ignores non-host actions that require host", () => {
@@ -298,8 +311,8 @@ describe("Input Validation", () => {
   });
 
   describe("Round limit validation", () => {
-    it("accepts valid round limits (3, 5, 10)", async () => {
-      for (const limit of [3, 5, 10]) {
+    it("accepts any round limit within bounds (1 to 50)", async () => {
+      for (const limit of [1, 7, 50]) {
         const testServer = createTestServer(`room-${limit}`);
         const testHost = createMockPlayer(testServer, "Host");
         createMockPlayer(testServer, "Player2");
@@ -333,13 +346,13 @@ describe("Input Validation", () => {
       server.sendMessage(host.conn, {
         type: "start",
         theme: "test",
-        roundLimit: 7, // Invalid
+        roundLimit: 51, // Over the maximum
       });
 
+      // Out-of-range limits fall back to endless
       const state = server.getState() as GameState;
-      // Either stays in lobby or uses default
-      // Implementation-dependent: check it doesn't crash
-      expect(state).toBeDefined();
+      expect(state.roundLimit).toBeNull();
+      expect(state.endCondition).toEqual({ type: "endless" });
     });
   });
 });
@@ -69,12 +69,12 @@ describe("Stale Async Result Handling", () => {
       await new Promise((resolve) => setTimeout(resolve, 10));
 
       // The stale result should have been discarded
-      // nextPrompt should still be null (not set to "Old stale prompt")
+      // promptQueue should still be empty (not filled with "Old stale prompt")
       state = server.getState() as GameState;
 
       // The stale prompt should have been discarded because generationId changed
       // This is the key behavior we're testing
-      expect(state.nextPrompt).toBeNull();
+      expect(state.promptQueue).toEqual([]);
     });
 
     it("increments generationId on game start", async () => {
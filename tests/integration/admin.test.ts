@@ -42,7 +42,7 @@ describe("Admin Key Validation", () => {
       expect(state.players[emptyKey.id].isAdmin).toBe(false);
     });
 
-    it("re-validates admin on reconnect", () => {
+    it("re-validates admin on reconnect", async () => {
       const admin = createMockPlayer(server, "Admin", undefined, ADMIN_KEY);
       const adminId = admin.id;
 
@@ -51,10 +51,12 @@ describe("Admin Key Validation", () => {
       expect(state.players[adminId].isAdmin).toBe(true);
 
       // Disconnect
+      await server.settle();
       admin.disconnect();
 
       // Reconnect WITHOUT admin key
-      server.joinPlayer("Admin", adminId); // No admin key
+      server.joinPlayer("Admin", adminId, undefined, admin.getSessionToken()!); // No admin key
+      await server.settle();
 
       state = server.getState() as GameState;
       // Should lose admin status since they didn't provide key on reconnect
@@ -0,0 +1,187 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { createTestServer, TestServer } from "../utils/party-test-server";
+import { createMockPlayer, MockPlayer } from "../utils/mock-player";
+import { PHASES, type GameState } from "../../party/main";
+
+describe("Answer and Chat Moderation", () => {
+  let server: TestServer;
+  let host: MockPlayer;
+  let player2: MockPlayer;
+
+  beforeEach(() => {
+    vi.restoreAllMocks();
+    server = createTestServer("answer-moderation-test", { CHAT_ENABLED: "true" });
+    host = createMockPlayer(server, "Host");
+    player2 = createMockPlayer(server, "Player2");
+  });
+
+  async function startGame() {
+    server.sendMessage(host.conn, { type: "start", theme: "test", roundLimit: 3 });
+    await server.waitForGeneration();
+  }
+
+  function lastBlocklist(player: MockPlayer) {
+    return player.conn.getAllMessages().filter(
+      (m) => (m as { type: string }).type === "blocklist"
+    ).pop();
+  }
+
+  function lastError(player: MockPlayer) {
+    return player.conn.getAllMessages().filter(
+      (m) => (m as { type: string }).type === "error"
+    ).pop();
+  }
+
+  describe("Answers", () => {
+    it("rejects slurs with a typed error instead of storing them", async () => {
+      await startGame();
+      player2.answer("h0st is a r3tard");
+
+      const state = server.getState() as GameState;
+      expect(state.answers[player2.id]).toBeUndefined();
+      expect(lastError(player2)).toMatchObject({ type: "error", code: "answer-rejected", reason: "slur" });
+    });
+
+    it("lets the player resubmit after a rejection", async () => {
+      await startGame();
+      player2.answer("r3tard");
+      player2.answer("something clean");
+
+      expect((server.getState() as GameState).answers[player2.id]).toBe("something clean");
+    });
+
+    it("applies the room blocklist set in the lobby", async () => {
+      server.sendMessage(host.conn, { type: "update-settings", blocklist: "pineapple\n/spoil(er|s)/" });
+      expect(lastBlocklist(host)).toEqual({ type: "blocklist", entries: ["pineapple", "/spoil(er|s)/"] });
+      await startGame();
+
+      player2.answer("Pineapple on pizza");
+      host.answer("No spoilers please");
+
+      const state = server.getState() as GameState;
+      expect(state.answers).toEqual({});
+      expect(lastError(player2)).toMatchObject({ code: "answer-rejected", reason: "blocklist" });
+      expect(lastError(host)).toMatchObject({ code: "answer-rejected", reason: "blocklist" });
+    });
+
+    it("shows players how many words are blocked but only the host which", () => {
+      server.sendMessage(host.conn, { type: "update-settings", blocklist: "pineapple\nanchovies" });
+
+      expect(player2.getLastState()?.moderation).toEqual({ blockedCount: 2, aiCheck: false });
+      expect(JSON.stringify(player2.conn.getAllMessages())).not.toContain("pineapple");
+      expect(lastBlocklist(host)).toEqual({ type: "blocklist", entries: ["pineapple", "anchovies"] });
+    });
+
+    it("sends the blocklist to a new host", () => {
+      server.sendMessage(host.conn, { type: "update-settings", blocklist: "pineapple" });
+      expect(lastBlocklist(player2)).toBeUndefined();
+
+      server.sendMessage(host.conn, { type: "transfer-host", playerId: player2.id });
+
+      expect((server.getState() as GameState).hostId).toBe(player2.id);
+      expect(lastBlocklist(player2)).toEqual({ type: "blocklist", entries: ["pineapple"] });
+    });
+
+    it("keeps applying the blocklist after a server restart", async () => {
+      server.sendMessage(host.conn, { type: "update-settings", blocklist: "pineapple" });
+      await startGame();
+      await server.restart();
+      const hostConn = await host.reconnect();
+      const conn = await player2.reconnect();
+      expect(hostConn.getAllMessages()).toContainEqual({ type: "blocklist", entries: ["pineapple"] });
+
+      player2.answer("Pineapple on pizza");
+
+      expect((server.getState() as GameState).answers[player2.id]).toBeUndefined();
+      expect(conn.getAllMessages()).toContainEqual(expect.objectContaining({ code: "answer-rejected", reason: "blocklist" }));
+    });
+
+    it("doesn't reject anything for other players", async () => {
+      await startGame();
+      player2.answer("r3tard");
+
+      expect(lastError(host)).toBeUndefined();
+    });
+  });
+
+  describe("Chat", () => {
+    it("rejects blocked chat and doesn't broadcast it", () => {
+      server.sendMessage(host.conn, { type: "update-settings", blocklist: ["pineapple"] });
+      player2.chat("pineapple!!");
+
+      expect(host.getLastChatMessage()).toBeNull();
+      expect(lastError(player2)).toMatchObject({ code: "chat-rejected", reason: "blocklist" });
+    });
+
+    it("still delivers clean chat", () => {
+      server.sendMessage(host.conn, { type: "update-settings", blocklist: ["pineapple"] });
+      player2.chat("hello");
+
+      expect((host.getLastChatMessage()?.message as { text: string }).text).toBe("hello");
+    });
+  });
+
+  describe("AI check", () => {
+    function mockVerdict(verdict: string) {
+      return vi.spyOn(global, "fetch").mockImplementation(async (_url, init) => {
+        const body = JSON.parse(init!.body as string);
+        const isModeration = body.messages[0].content.includes("You moderate");
+        const content = isModeration ? verdict : "1. Host's worst habit\n2. Player2's worst habit";
+        return new Response(JSON.stringify({ choices: [{ message: { content } }] }));
+      });
+    }
+
+    beforeEach(() => {
+      server = createTestServer("ai-moderation-test", { XAI_API_KEY: "test-key", CHAT_ENABLED: "true" });
+      host = createMockPlayer(server, "Host");
+      player2 = createMockPlayer(server, "Player2");
+    });
+
+    it("is off by default", async () => {
+      const fetchSpy = mockVerdict("BLOCK");
+      await startGame();
+      const callsBefore = fetchSpy.mock.calls.length;
+
+      player2.answer("anything");
+
+      expect(fetchSpy.mock.calls.length).toBe(callsBefore);
+      expect((server.getState() as GameState).answers[player2.id]).toBe("anything");
+    });
+
+    it("stores the answer once the model allows it", async () => {
+      mockVerdict("ALLOW");
+      server.sendMessage(host.conn, { type: "update-settings", aiModeration: true });
+      await startGame();
+
+      player2.answer("a fine answer");
+      expect((server.getState() as GameState).answers[player2.id]).toBeUndefined();
+      await vi.waitFor(() => {
+        expect((server.getState() as GameState).answers[player2.id]).toBe("a fine answer");
+      });
+    });
+
+    it("rejects the answer when the model blocks it", async () => {
+      mockVerdict("BLOCK");
+      server.sendMessage(host.conn, { type: "update-settings", aiModeration: true });
+      await startGame();
+
+      player2.answer("something subtle");
+      await vi.waitFor(() => {
+        expect(lastError(player2)).toMatchObject({ code: "answer-rejected", reason: "ai" });
+      });
+      expect((server.getState() as GameState).answers[player2.id]).toBeUndefined();
+    });
+
+    it("drops the result if the round ended during the check", async () => {
+      mockVerdict("ALLOW");
+      server.sendMessage(host.conn, { type: "update-settings", aiModeration: true });
+      await startGame();
+
+      player2.answer("too late");
+      server.server.state.phase = PHASES.VOTING;
+      await new Promise((resolve) => setTimeout(resolve, 20));
+
+      expect((server.getState() as GameState).answers).toEqual({});
+    });
+  });
+});
@@ -0,0 +1,36 @@
+import { describe, it, expect } from "vitest";
+import { GameSimulator } from "../utils/game-simulator";
+import { computeAwards } from "../../party/awards";
+import { PHASES } from "../../party/main";
+
+describe("End-of-game Awards", () => {
+  it("are computed from the archive and broadcast in FINAL", async () => {
+    const simulator = new GameSimulator({ playerCount: 4, rounds: 3 });
+    await simulator.runFullGame();
+
+    const state = simulator.host.getLastState()!;
+    const serverState = simulator.getState();
+    expect(state.phase).toBe(PHASES.FINAL);
+    expect(state.awards).toEqual(computeAwards(serverState.gameArchive, Object.values(serverState.players)));
+    expect(state.awards!.length).toBeGreaterThan(0);
+    expect(simulator.players[2].getLastState()?.awards).toEqual(state.awards);
+  });
+
+  it("are not sent before the game ends", async () => {
+    const simulator = new GameSimulator({ playerCount: 3, rounds: 3 });
+    await simulator.start();
+    await simulator.playRound();
+
+    expect(simulator.host.getLastState()?.awards).toBeNull();
+  });
+
+  it("are cleared when the game restarts", async () => {
+    const simulator = new GameSimulator({ playerCount: 3, rounds: 3 });
+    await simulator.runFullGame();
+
+    simulator.server.sendMessage(simulator.host.conn, { type: "restart" });
+
+    expect(simulator.getState().awards).toEqual([]);
+    expect(simulator.host.getLastState()?.awards).toBeNull();
+  });
+});
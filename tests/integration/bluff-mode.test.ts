@@ -0,0 +1,166 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { createTestServer, TestServer } from "../utils/party-test-server";
+import { createMockPlayer, MockPlayer } from "../utils/mock-player";
+import { PHASES, type GameState } from "../../party/main";
+import { BLUFF_POINTS, TRUTH_ID } from "../../party/bluff";
+
+type RevealAnswer = { answerId: number; playerId?: string; isTruth?: boolean; answer: string; votes: number };
+
+describe("Bluff Mode", () => {
+  let server: TestServer;
+  let host: MockPlayer;
+  let player2: MockPlayer;
+  let player3: MockPlayer;
+
+  beforeEach(() => {
+    vi.restoreAllMocks();
+    server = createTestServer("bluff-test", {});
+    host = createMockPlayer(server, "Host");
+    player2 = createMockPlayer(server, "Player2");
+    player3 = createMockPlayer(server, "Player3");
+  });
+
+  function gameState() {
+    return server.getState() as GameState;
+  }
+
+  async function start() {
+    server.sendMessage(host.conn, { type: "start", mode: "bluff", roundLimit: 3 });
+    await server.waitForGeneration();
+  }
+
+  function writeLies() {
+    host.answer("Host lie");
+    player2.answer("Player2 lie");
+    player3.answer("Player3 lie");
+  }
+
+  // Host finds the truth, Player2 falls for Player3's lie, Player3 falls for Host's
+  function playRound() {
+    writeLies();
+    const order = gameState().answerOrder;
+    host.vote(order.indexOf(TRUTH_ID));
+    player2.vote(order.indexOf(player3.id));
+    player3.vote(order.indexOf(host.id));
+  }
+
+  function finishReveal() {
+    while (gameState().revealStep < server.server.revealStepCount()) {
+      server.sendMessage(host.conn, { type: "reveal-next" });
+    }
+  }
+
+  it("is chosen in the lobby and broadcast", () => {
+    expect(host.getLastState()?.mode).toBe("roast");
+
+    server.sendMessage(host.conn, { type: "update-settings", mode: "bluff" });
+    expect(player2.getLastState()?.mode).toBe("bluff");
+
+    server.sendMessage(host.conn, { type: "update-settings", mode: "trivia" });
+    server.sendMessage(player2.conn, { type: "update-settings", mode: "roast" });
+    expect(gameState().mode).toBe("bluff");
+  });
+
+  it("asks a fact from the local pack without generating prompts", async () => {
+    await start();
+
+    const state = host.getLastState()!;
+    expect(state.phase).toBe(PHASES.WRITING);
+    expect(state.promptSource).toBe("fact");
+    expect(state.currentPrompt).toBe(gameState().bluffFact!.question);
+    expect(gameState().isGenerating).toBe(false);
+    expect(gameState().promptQueue).toEqual([]);
+    // As a whole string value: short answers like "22" could turn up inside a timestamp
+    expect(JSON.stringify(state)).not.toContain(JSON.stringify(gameState().bluffFact!.answer));
+  });
+
+  it("refuses a lie that is really the truth", async () => {
+    await start();
+    host.answer(` ${gameState().bluffFact!.answer.toUpperCase()}! `);
+
+    expect(gameState().answers[host.id]).toBeUndefined();
+    expect(host.conn.getAllMessages()).toContainEqual(expect.objectContaining({ type: "error", code: "answer-is-truth" }));
+  });
+
+  it("mixes the truth into the answers to vote on", async () => {
+    await start();
+    writeLies();
+
+    const answers = host.getLastState()!.answers as RevealAnswer[];
+    expect(host.getLastState()?.phase).toBe(PHASES.VOTING);
+    expect(answers).toHaveLength(4);
+    expect(answers.map(a => a.answer)).toContain(gameState().bluffFact!.answer);
+    expect(answers.every(a => a.playerId === undefined && a.isTruth === undefined)).toBe(true);
+  });
+
+  it("scores finding the truth and fooling others", async () => {
+    await start();
+    playRound();
+
+    expect(gameState().players[host.id].score).toBe(BLUFF_POINTS.truth + BLUFF_POINTS.perPlayerFooled);
+    expect(gameState().players[player3.id].score).toBe(BLUFF_POINTS.perPlayerFooled);
+    expect(gameState().players[player2.id].score).toBe(0);
+    expect(gameState().pointsBreakdown.find(b => b.playerId === host.id)?.truthPoints).toBe(BLUFF_POINTS.truth);
+  });
+
+  it("keeps its fixed points whatever the scoring rules say", async () => {
+    // Comeback doubles the final round and pays a catch-up bonus; neither applies to bluff
+    server.sendMessage(host.conn, { type: "start", mode: "bluff", roundLimit: 2, scoring: "comeback" });
+    await server.waitForGeneration();
+    playRound();
+    finishReveal();
+    server.sendMessage(host.conn, { type: "next-round" });
+    await server.waitForGeneration();
+    // Player2, in last place, fools the host in the final round
+    writeLies();
+    const order = gameState().answerOrder;
+    host.vote(order.indexOf(player2.id));
+    player2.vote(order.indexOf(TRUTH_ID));
+    player3.vote(order.indexOf(TRUTH_ID));
+
+    expect(gameState().players[player2.id].score).toBe(BLUFF_POINTS.perPlayerFooled + BLUFF_POINTS.truth);
+    expect(gameState().pointsBreakdown.every(b => b.multiplier === 1 && b.catchUpBonus === 0)).toBe(true);
+  });
+
+  it("reveals the truth last", async () => {
+    await start();
+    playRound();
+    finishReveal();
+
+    const answers = host.getLastState()!.answers as RevealAnswer[];
+    expect(answers).toHaveLength(4);
+    expect(answers[3]).toMatchObject({ isTruth: true, answer: gameState().bluffFact!.answer, votes: 1 });
+    expect(answers[3].playerId).toBeUndefined();
+    expect(answers.slice(0, 3).every(a => a.playerId && !a.isTruth)).toBe(true);
+  });
+
+  it("archives the truth and who found it", async () => {
+    await start();
+    playRound();
+
+    const [round] = gameState().gameArchive;
+    expect(round.truth).toEqual({ answer: gameState().bluffFact!.answer, voters: [{ playerId: host.id, name: "Host" }] });
+    expect(round.answers.map(a => a.playerId)).not.toContain(TRUTH_ID);
+  });
+
+  it("doesn't repeat a fact within a game", async () => {
+    await start();
+    for (let round = 1; round < 3; round++) {
+      playRound();
+      server.sendMessage(host.conn, { type: "next-round" });
+    }
+    playRound();
+
+    const prompts = gameState().gameArchive.map(r => r.prompt);
+    expect(new Set(prompts).size).toBe(3);
+  });
+
+  it("leaves roast rounds without a truth", async () => {
+    server.sendMessage(host.conn, { type: "start", theme: "test", roundLimit: 3 });
+    await server.waitForGeneration();
+    writeLies();
+
+    expect(host.getLastState()!.answers).toHaveLength(3);
+    expect(gameState().answerOrder).not.toContain(TRUTH_ID);
+  });
+});
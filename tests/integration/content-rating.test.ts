@@ -0,0 +1,142 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { createTestServer, TestServer } from "../utils/party-test-server";
+import { createMockPlayer, MockPlayer } from "../utils/mock-player";
+import { type GameState } from "../../party/main";
+import { HARDCODED_PROMPTS, parsePromptPack, promptsForRating, BUILT_IN_PACKS } from "../../party/packs";
+import {
+  buildPromptSystemMessage,
+  classifyContentRating,
+  parsePromptBatch,
+  validateGeneratedPrompt,
+} from "../../party/prompts";
+
+describe("Content Rating", () => {
+  describe("classifyContentRating", () => {
+    it("rates explicit, cheeky and clean prompts", () => {
+      expect(classifyContentRating("What Ben ACTUALLY thinks about during sex")).toBe("adult");
+      expect(classifyContentRating("Ben's most regrettable drunk text")).toBe("pg13");
+      expect(classifyContentRating("The snack Ben would betray everyone for")).toBe("family");
+    });
+
+    it("matches whole words only", () => {
+      expect(classifyContentRating("Ben's most excellent Essex holiday")).toBe("family");
+      expect(classifyContentRating("Why Ben says hello to every dog")).toBe("family");
+    });
+  });
+
+  describe("System prompt", () => {
+    it("keeps the adult rules for adult rooms", () => {
+      expect(buildPromptSystemMessage(1, { type: "rounds", rounds: 3 }, 1, "adult")).toContain("Nothing is off limits");
+    });
+
+    it("swaps in rating-specific rules and clean examples", () => {
+      const family = buildPromptSystemMessage(1, { type: "rounds", rounds: 3 }, 1, "family");
+      expect(family).toContain("FAMILY FRIENDLY");
+      expect(family).not.toContain("Nothing is off limits");
+      expect(family).not.toContain("OnlyFans");
+
+      const pg13 = buildPromptSystemMessage(1, { type: "rounds", rounds: 3 }, 1, "pg13");
+      expect(pg13).toContain("PG-13");
+      expect(classifyContentRating(pg13.split("Key rules:")[0])).not.toBe("adult");
+    });
+  });
+
+  describe("Generated prompt check", () => {
+    it("rejects prompts above the room rating", () => {
+      expect(validateGeneratedPrompt("Ben's porn category", ["Ben"], "pg13")).toBeNull();
+      expect(validateGeneratedPrompt("Ben's worst drunk text", ["Ben"], "family")).toBeNull();
+      expect(validateGeneratedPrompt("Ben's worst drunk text", ["Ben"], "pg13")).toBe("Ben's worst drunk text");
+    });
+
+    it("drops only the offending lines of a batch", () => {
+      const batch = "Ben's weirdest kink\nBen's villain origin story\nWhy Ben got arrested";
+      expect(parsePromptBatch(batch, ["Ben"], "family")).toEqual(["Ben's villain origin story"]);
+    });
+  });
+
+  describe("Fallback filtering", () => {
+    it("filters the classic pack by tag", () => {
+      const pg13 = promptsForRating(BUILT_IN_PACKS[0], "pg13");
+      expect(pg13.length).toBeGreaterThan(0);
+      expect(pg13.length).toBeLessThan(HARDCODED_PROMPTS.length);
+      expect(pg13).not.toContain("What {name} ACTUALLY thinks about during sex");
+    });
+
+    it("falls back to work-safe prompts when nothing in the pack fits", () => {
+      const family = promptsForRating(BUILT_IN_PACKS[0], "family");
+      expect(family.length).toBeGreaterThan(0);
+      expect(family.every(p => classifyContentRating(p) === "family")).toBe(true);
+    });
+
+    it("rates uploaded prompts by keyword and lets tags raise but not lower the rating", () => {
+      const pack = parsePromptPack({
+        prompts: [
+          "{name}'s desk snack",
+          { text: "{name}'s sex playlist", rating: "family" },
+          { text: "{name}'s hidden talent", rating: "adult" },
+        ],
+      });
+
+      expect(pack?.prompts.map(p => p.rating)).toEqual(["family", "adult", "adult"]);
+    });
+  });
+
+  describe("Room setting", () => {
+    let server: TestServer;
+    let host: MockPlayer;
+    let player2: MockPlayer;
+
+    beforeEach(() => {
+      vi.restoreAllMocks();
+      server = createTestServer("rating-test", {});
+      host = createMockPlayer(server, "Host");
+      player2 = createMockPlayer(server, "Player2");
+    });
+
+    it("defaults to adult and broadcasts changes", () => {
+      expect(player2.getLastState()?.contentRating).toBe("adult");
+
+      server.sendMessage(host.conn, { type: "update-settings", contentRating: "pg13" });
+
+      expect(player2.getLastState()?.contentRating).toBe("pg13");
+    });
+
+    it("ignores unknown ratings and non-host changes", () => {
+      server.sendMessage(host.conn, { type: "update-settings", contentRating: "family" });
+      server.sendMessage(host.conn, { type: "update-settings", contentRating: "anything-goes" });
+      server.sendMessage(player2.conn, { type: "update-settings", contentRating: "adult" });
+
+      expect((server.getState() as GameState).contentRating).toBe("family");
+    });
+
+    it("uses only allowed fallback prompts", async () => {
+      server.sendMessage(host.conn, { type: "start", theme: "test", roundLimit: 3, contentRating: "family" });
+      await server.waitForGeneration();
+
+      const state = server.getState() as GameState;
+      expect(state.contentRating).toBe("family");
+      expect(state.promptSource).toBe("fallback");
+      expect(classifyContentRating(state.currentPrompt)).toBe("family");
+    });
+
+    it("sends the rating to the LLM and rejects prompts above it", async () => {
+      const fetchSpy = vi.spyOn(global, "fetch").mockResolvedValue(new Response(JSON.stringify({
+        choices: [{ message: { content: "What Host thinks about during sex\nHost's secret talent" } }],
+      })));
+      server = createTestServer("rating-llm-test", { XAI_API_KEY: "test-key" });
+      host = createMockPlayer(server, "Host");
+      player2 = createMockPlayer(server, "Player2");
+
+      server.sendMessage(host.conn, { type: "start", theme: "test", roundLimit: 3, contentRating: "family" });
+      await server.waitForGeneration();
+
+      const body = JSON.parse(fetchSpy.mock.calls[0][1]!.body as string);
+      const systemMessage = body.messages.find((m: { role: string }) => m.role === "system");
+      expect(systemMessage.content).toContain("FAMILY FRIENDLY");
+
+      const state = server.getState() as GameState;
+      expect(state.currentPrompt).toBe("Host's secret talent");
+      expect(state.promptQueue).toHaveLength(0);
+    });
+  });
+});
@@ -0,0 +1,294 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { createTestServer, TestServer } from "../utils/party-test-server";
+import { createMockPlayer, MockPlayer } from "../utils/mock-player";
+import { PHASES, type GameState } from "../../party/main";
+import { DUEL_WRITING_PROMPT } from "../../party/duel";
+import type { DuelPromptsMessage } from "../../party/protocol";
+
+describe("Duel Mode", () => {
+  let server: TestServer;
+  let players: MockPlayer[];
+  let host: MockPlayer;
+
+  beforeEach(() => {
+    vi.restoreAllMocks();
+    server = createTestServer("duel-test", {});
+    players = ["Host", "Player2", "Player3", "Player4"].map(name => createMockPlayer(server, name));
+    host = players[0];
+  });
+
+  function gameState() {
+    return server.getState() as GameState;
+  }
+
+  async function start(roundLimit = 2) {
+    server.sendMessage(host.conn, { type: "start", mode: "duel", theme: "test", roundLimit });
+    await server.waitForGeneration();
+  }
+
+  function lastDuelPrompts(player: MockPlayer) {
+    return player.conn.getAllMessages()
+      .filter(m => (m as { type: string }).type === "duel-prompts")
+      .at(-1) as DuelPromptsMessage | undefined;
+  }
+
+  function answer(player: MockPlayer, matchupId: number, text = `${player.id} answer ${matchupId}`) {
+    server.sendMessage(player.conn, { type: "answer", answer: text, matchupId });
+  }
+
+  function answerEverything() {
+    gameState().matchups.forEach((matchup, matchupId) => {
+      matchup.playerIds.forEach(id => answer(players.find(p => p.id === id)!, matchupId));
+    });
+  }
+
+  // Everyone outside the current matchup votes for its first answer that isn't theirs
+  function voteOnMatchup() {
+    const { answerOrder, matchups, matchupIndex } = gameState();
+    players
+      .filter(p => !matchups[matchupIndex].playerIds.includes(p.id))
+      .forEach(p => p.vote(0));
+    return answerOrder[0];
+  }
+
+  it("needs at least three players", () => {
+    const small = createTestServer("duel-small", {});
+    const smallHost = createMockPlayer(small, "Host");
+    createMockPlayer(small, "Player2");
+
+    small.sendMessage(smallHost.conn, { type: "start", mode: "duel" });
+
+    expect((small.getState() as GameState).phase).toBe(PHASES.LOBBY);
+    expect((small.getState() as GameState).isGenerating).toBe(false);
+  });
+
+  it("gives every player two prompts, each shared with one other player", async () => {
+    await start();
+
+    const { matchups, currentPrompt } = gameState();
+    expect(currentPrompt).toBe(DUEL_WRITING_PROMPT);
+    expect(matchups).toHaveLength(4);
+    expect(new Set(matchups.map(m => m.prompt)).size).toBe(4);
+    for (const player of players) {
+      const own = matchups.filter(m => m.playerIds.includes(player.id));
+      expect(own).toHaveLength(2);
+      expect(own.every(m => m.playerIds.length === 2 && new Set(m.playerIds).size === 2)).toBe(true);
+    }
+  });
+
+  it("sends each player only their own prompts", async () => {
+    await start();
+
+    const { matchups } = gameState();
+    for (const player of players) {
+      const message = lastDuelPrompts(player)!;
+      expect(message.round).toBe(1);
+      expect(message.prompts.map(p => p.prompt)).toEqual(
+        matchups.filter(m => m.playerIds.includes(player.id)).map(m => m.prompt)
+      );
+      expect(message.prompts.every(p => !p.answered)).toBe(true);
+    }
+    const shared = JSON.stringify(host.getLastState());
+    expect(matchups.some(m => shared.includes(m.prompt))).toBe(false);
+  });
+
+  it("only counts a player as submitted once both prompts are answered", async () => {
+    await start();
+    const [first, second] = lastDuelPrompts(host)!.prompts;
+
+    answer(host, first.matchupId);
+    expect(host.getLastState()?.submittedPlayerIds).not.toContain(host.id);
+    expect(lastDuelPrompts(host)!.prompts.find(p => p.matchupId === first.matchupId)?.answered).toBe(true);
+
+    answer(host, second.matchupId);
+    expect(host.getLastState()?.submittedPlayerIds).toContain(host.id);
+  });
+
+  it("ignores answers to prompts that aren't the player's", async () => {
+    await start();
+    const notMine = gameState().matchups.findIndex(m => !m.playerIds.includes(host.id));
+
+    answer(host, notMine);
+    host.answer("No matchup given");
+
+    expect(gameState().matchups.every(m => m.answers[host.id] === undefined)).toBe(true);
+  });
+
+  it("votes on one matchup at a time, without the two players in it", async () => {
+    await start();
+    answerEverything();
+
+    const state = host.getLastState()!;
+    const [matchup] = gameState().matchups;
+    expect(state.phase).toBe(PHASES.VOTING);
+    expect(state.matchup).toEqual({ index: 0, count: 4 });
+    expect(state.currentPrompt).toBe(matchup.prompt);
+    expect(state.answers).toHaveLength(2);
+
+    const participant = players.find(p => p.id === matchup.playerIds[0])!;
+    participant.vote(gameState().answerOrder.indexOf(matchup.playerIds[1]));
+    expect(gameState().votes[participant.id]).toBeUndefined();
+
+    voteOnMatchup();
+    expect(gameState().phase).toBe(PHASES.REVEAL);
+  });
+
+  it("scores and archives each matchup, then moves on to the next round", async () => {
+    await start();
+    answerEverything();
+
+    for (let index = 0; index < 4; index++) {
+      expect(gameState().matchupIndex).toBe(index);
+      const winner = voteOnMatchup();
+      expect(gameState().pointsBreakdown.find(b => b.playerId === winner)?.votes).toBe(2);
+      server.sendMessage(host.conn, { type: "next-round" });
+    }
+
+    expect(gameState().phase).toBe(PHASES.WRITING);
+    expect(gameState().round).toBe(2);
+    expect(gameState().gameArchive.map(r => [r.round, r.matchup])).toEqual([[1, 1], [1, 2], [1, 3], [1, 4]]);
+    // Every player won or lost two matchups, 2 votes × 100 + 200 for each win
+    const total = Object.values(gameState().players).reduce((sum, p) => sum + p.score, 0);
+    expect(total).toBe(4 * 400);
+  });
+
+  it("scores each matchup with the lobby's scoring rules", async () => {
+    server.sendMessage(host.conn, { type: "start", mode: "duel", theme: "test", roundLimit: 1, scoring: "comeback" });
+    await server.waitForGeneration();
+    answerEverything();
+
+    const winner = voteOnMatchup();
+    // The only round is the final one, which comeback doubles: (2 votes × 100 + 200) × 2
+    expect(gameState().pointsBreakdown.find(b => b.playerId === winner)).toMatchObject({ multiplier: 2, total: 800 });
+  });
+
+  it("updates streaks once, after the round's last matchup", async () => {
+    await start();
+    answerEverything();
+    Object.values(gameState().players).forEach(p => p.winStreak = 3);
+
+    const winners: string[] = [];
+    for (let index = 0; index < 4; index++) {
+      winners.push(voteOnMatchup());
+      if (index < 3) {
+        // Nobody's streak moves until the round is decided
+        expect(Object.values(gameState().players).every(p => p.winStreak === 3)).toBe(true);
+        server.sendMessage(host.conn, { type: "next-round" });
+      }
+    }
+
+    for (const player of Object.values(gameState().players)) {
+      expect(player.winStreak).toBe(winners.includes(player.id) ? 4 : 0);
+    }
+  });
+
+  it("counts two matchup wins in one round as a single round won", async () => {
+    await start(1);
+    answerEverything();
+    const { matchups } = gameState();
+    // Host is in two matchups; everyone outside each one votes for Host
+    const hostMatchups = matchups.flatMap((m, i) => m.playerIds.includes(host.id) ? [i] : []);
+    expect(hostMatchups).toHaveLength(2);
+
+    for (let index = 0; index < matchups.length; index++) {
+      const { answerOrder } = gameState();
+      const favourite = hostMatchups.includes(index) ? host.id : answerOrder[0];
+      players
+        .filter(p => !matchups[index].playerIds.includes(p.id))
+        .forEach(p => p.vote(answerOrder.indexOf(favourite)));
+      if (index < matchups.length - 1) server.sendMessage(host.conn, { type: "next-round" });
+    }
+
+    expect(gameState().players[host.id].winStreak).toBe(1);
+  });
+
+  it("leaves the streak of a player who sat out the round alone", async () => {
+    await start();
+    answerEverything();
+    // Joins after the round was planned, so has no matchup in it
+    const latecomer = createMockPlayer(server, "Latecomer");
+    gameState().players[latecomer.id].winStreak = 2;
+    players.push(latecomer); // Votes on every matchup
+
+    for (let index = 0; index < 4; index++) {
+      voteOnMatchup();
+      if (index < 3) server.sendMessage(host.conn, { type: "next-round" });
+    }
+
+    expect(gameState()).toMatchObject({ phase: PHASES.REVEAL, matchupIndex: 3 });
+    expect(gameState().players[latecomer.id].winStreak).toBe(2);
+  });
+
+  it("switches to roast once too few players are left for a duel round", async () => {
+    await start(3);
+    answerEverything();
+    for (let index = 0; index < 4; index++) {
+      voteOnMatchup();
+      if (index < 3) server.sendMessage(host.conn, { type: "next-round" });
+    }
+    // Two players leave during the last matchup's reveal
+    server.sendMessage(host.conn, { type: "kick", playerId: players[2].id });
+    server.sendMessage(host.conn, { type: "kick", playerId: players[3].id });
+    server.sendMessage(host.conn, { type: "next-round" });
+    await server.waitForGeneration();
+
+    expect(gameState()).toMatchObject({ phase: PHASES.WRITING, round: 2, mode: "roast", matchups: [] });
+  });
+
+  it("lets the only answer in a matchup win by forfeit", async () => {
+    await start();
+    const [matchup] = gameState().matchups;
+    answer(players.find(p => p.id === matchup.playerIds[0])!, 0);
+    server.sendMessage(host.conn, { type: "end-writing" });
+
+    expect(gameState().answerOrder).toEqual([matchup.playerIds[0]]);
+    voteOnMatchup();
+    expect(gameState().pointsBreakdown[0]).toMatchObject({ playerId: matchup.playerIds[0], votes: 2 });
+  });
+
+  it("checks both of a player's answers when the AI check is on", async () => {
+    vi.spyOn(global, "fetch").mockImplementation(async (_url, init) => {
+      const body = JSON.parse(init!.body as string);
+      const isModeration = body.messages[0].content.includes("You moderate");
+      const content = isModeration ? "ALLOW" : "1. A prompt\n2. Another prompt";
+      return new Response(JSON.stringify({ choices: [{ message: { content } }] }));
+    });
+    server = createTestServer("duel-ai-test", { XAI_API_KEY: "test-key" });
+    players = ["Host", "Player2", "Player3"].map(name => createMockPlayer(server, name));
+    host = players[0];
+    server.sendMessage(host.conn, { type: "update-settings", aiModeration: true });
+    await start();
+
+    const player = players[1];
+    const own = gameState().matchups.flatMap((m, matchupId) => m.playerIds.includes(player.id) ? [matchupId] : []);
+    // The second answer goes in while the first is still being checked
+    own.forEach(matchupId => answer(player, matchupId));
+
+    await vi.waitFor(() => {
+      expect(own.map(matchupId => gameState().matchups[matchupId].answers[player.id])).toEqual(
+        own.map(matchupId => `${player.id} answer ${matchupId}`)
+      );
+    });
+  });
+
+  it("tags own-answer with the matchup", async () => {
+    await start();
+    answerEverything();
+    const participant = players.find(p => p.id === gameState().matchups[0].playerIds[0])!;
+
+    const ownAnswer = participant.conn.getAllMessages().filter(m => (m as { type: string }).type === "own-answer").at(-1);
+    expect(ownAnswer).toMatchObject({ round: 1, matchup: 0 });
+  });
+
+  it("resends a player's prompts when they reconnect", async () => {
+    await start();
+    const player = players[1];
+    await server.settle();
+    player.disconnect();
+    const rejoined = server.joinPlayer("Player2", player.id, undefined, player.getSessionToken()!);
+    await server.settle();
+
+    const resent = rejoined.getAllMessages().filter(m => (m as { type: string }).type === "duel-prompts");
+    expect(resent).toHaveLength(1);
+  });
+});
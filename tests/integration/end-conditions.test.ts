@@ -0,0 +1,121 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { createTestServer, TestServer } from "../utils/party-test-server";
+import { createMockPlayer, MockPlayer } from "../utils/mock-player";
+import { GameSimulator } from "../utils/game-simulator";
+import { PHASES, type GameState } from "../../party/main";
+import type { LobbySettings } from "../../party/protocol";
+
+describe("End Conditions", () => {
+  let server: TestServer;
+  let host: MockPlayer;
+  let player2: MockPlayer;
+  let player3: MockPlayer;
+
+  beforeEach(() => {
+    vi.restoreAllMocks();
+    server = createTestServer("end-condition-test", {});
+    host = createMockPlayer(server, "Host");
+    player2 = createMockPlayer(server, "Player2");
+    player3 = createMockPlayer(server, "Player3");
+  });
+
+  function gameState() {
+    return server.getState() as GameState;
+  }
+
+  async function start(settings: LobbySettings) {
+    server.sendMessage(host.conn, { type: "start", theme: "test", ...settings });
+    await server.waitForGeneration();
+  }
+
+  // Player2 gets two votes and wins (400 points with classic scoring)
+  function playRound() {
+    host.answer("Host answer");
+    player2.answer("Player2 answer");
+    player3.answer("Player3 answer");
+    const order = gameState().answerOrder;
+    host.vote(order.indexOf(player2.id));
+    player3.vote(order.indexOf(player2.id));
+    player2.vote(order.indexOf(host.id));
+  }
+
+  async function nextRound() {
+    server.sendMessage(host.conn, { type: "next-round" });
+    await server.waitForGeneration();
+  }
+
+  it("plays any round count within bounds", async () => {
+    const simulator = new GameSimulator({ playerCount: 3, rounds: 2 });
+    await simulator.runFullGame();
+
+    expect(simulator.getState().phase).toBe(PHASES.FINAL);
+    expect(simulator.getState().round).toBe(2);
+  });
+
+  it("sets and broadcasts the end condition from the lobby", () => {
+    server.sendMessage(host.conn, { type: "update-settings", endCondition: { type: "score", target: 3000 } });
+
+    expect(player3.getLastState()?.endCondition).toEqual({ type: "score", target: 3000 });
+    expect(player3.getLastState()?.roundLimit).toBeNull();
+
+    server.sendMessage(host.conn, { type: "update-settings", roundLimit: 12 });
+    expect(player3.getLastState()?.endCondition).toEqual({ type: "rounds", rounds: 12 });
+    expect(player3.getLastState()?.roundLimit).toBe(12);
+  });
+
+  it("keeps the current end condition when the new one is invalid", () => {
+    server.sendMessage(host.conn, { type: "update-settings", endCondition: { type: "timed", minutes: 15 } });
+    server.sendMessage(host.conn, { type: "update-settings", endCondition: { type: "timed", minutes: 9000 } });
+
+    expect(gameState().endCondition).toEqual({ type: "timed", minutes: 15 });
+  });
+
+  it("ends a score game after the round in which someone reaches the target", async () => {
+    await start({ endCondition: { type: "score", target: 800 } });
+    playRound();
+    await nextRound();
+    expect(gameState().phase).toBe(PHASES.WRITING);
+
+    playRound();
+    expect(gameState().players[player2.id].score).toBe(800);
+    await nextRound();
+
+    expect(gameState().phase).toBe(PHASES.FINAL);
+    expect(gameState().round).toBe(2);
+  });
+
+  it("ends a timed game once the clock runs out", async () => {
+    const startedAt = Date.now();
+    await start({ endCondition: { type: "timed", minutes: 10 } });
+    const endsAt = host.getLastState()!.gameEndsAt!;
+    expect(endsAt).toBeGreaterThanOrEqual(startedAt + 10 * 60_000);
+
+    playRound();
+    await nextRound();
+    expect(gameState().phase).toBe(PHASES.WRITING);
+
+    playRound();
+    vi.spyOn(Date, "now").mockReturnValue(endsAt);
+    await nextRound();
+
+    expect(gameState().phase).toBe(PHASES.FINAL);
+    expect(host.getLastState()?.gameEndsAt).toBeNull();
+  });
+
+  it("doubles the last round of a timed game once time is up", async () => {
+    await start({ endCondition: { type: "timed", minutes: 10 }, scoring: "comeback" });
+    vi.spyOn(Date, "now").mockReturnValue(host.getLastState()!.gameEndsAt!);
+    playRound();
+
+    expect(gameState().pointsBreakdown.find(b => b.playerId === player2.id)?.multiplier).toBe(2);
+  });
+
+  it("restores the end condition from snapshots that only had a round limit", async () => {
+    const legacy: Partial<GameState> = { ...gameState(), roundLimit: 5 };
+    delete legacy.endCondition;
+    await server.room.storage.put("state", legacy);
+    await server.restart();
+
+    expect(gameState().endCondition).toEqual({ type: "rounds", rounds: 5 });
+  });
+});
@@ -359,7 +359,7 @@ describe("Full Game Scenarios", () => {
 
       // Player 2 disconnects and reconnects
       players[1].disconnect();
-      players[1].reconnect();
+      await players[1].reconnect();
 
       const state = server.getState() as GameState;
       expect(state.players[players[1].id].disconnectedAt).toBeUndefined();
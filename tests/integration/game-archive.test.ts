@@ -0,0 +1,79 @@
+import { describe, it, expect } from "vitest";
+import { GameSimulator } from "../utils/game-simulator";
+import { createTestServer } from "../utils/party-test-server";
+import { createMockPlayer } from "../utils/mock-player";
+import { PHASES, type GameState } from "../../party/main";
+import type { ArchivedRound } from "../../party/protocol";
+
+describe("Game Archive", () => {
+  it("records every answer, author, voter and points for the FINAL recap", async () => {
+    const simulator = new GameSimulator({ playerCount: 3, rounds: 3 });
+    const result = await simulator.runFullGame();
+
+    const state = simulator.host.getLastState()!;
+    expect(state.phase).toBe(PHASES.FINAL);
+    const archive = state.archive as ArchivedRound[];
+    expect(archive.map(r => r.round)).toEqual([1, 2, 3]);
+    expect(archive.map(r => r.prompt)).toEqual(result.rounds.map(r => r.prompt));
+
+    for (const round of archive) {
+      expect(round.answers).toHaveLength(3);
+      for (const answer of round.answers) {
+        const player = simulator.players.find(p => p.id === answer.playerId)!;
+        expect(answer.name).toBe(player.name);
+        expect(answer.votes).toBe(answer.voters.length);
+        expect(answer.voters.every(v => v.playerId !== answer.playerId)).toBe(true);
+      }
+    }
+
+    // Points in the archive add up to the final scores
+    for (const player of simulator.players) {
+      const archived = archive.flatMap(r => r.answers).filter(a => a.playerId === player.id);
+      expect(archived.reduce((sum, a) => sum + a.points, 0)).toBe(result.finalScores.get(player.id));
+    }
+  });
+
+  it("keeps rounds the LLM history drops", async () => {
+    const simulator = new GameSimulator({ playerCount: 3, rounds: 10 });
+    await simulator.runFullGame();
+
+    const state = simulator.getState();
+    expect(state.roundHistory).toHaveLength(5);
+    expect(state.gameArchive).toHaveLength(10);
+  });
+
+  it("only sends the archive in FINAL", async () => {
+    const simulator = new GameSimulator({ playerCount: 3, rounds: 3 });
+    await simulator.start();
+    await simulator.playRound();
+
+    expect(simulator.getState().gameArchive).toHaveLength(1);
+    expect(simulator.host.getLastState()?.archive).toBeNull();
+  });
+
+  it("archives rounds that skipped voting", async () => {
+    const server = createTestServer("archive-skip-test", {});
+    const host = createMockPlayer(server, "Host");
+    createMockPlayer(server, "Player2");
+    server.sendMessage(host.conn, { type: "start", theme: "test", roundLimit: 3 });
+    await server.waitForGeneration();
+
+    // Nobody answers, so the round goes straight to REVEAL
+    server.sendMessage(host.conn, { type: "end-writing" });
+
+    const state = server.getState() as GameState;
+    expect(state.phase).toBe(PHASES.REVEAL);
+    expect(state.gameArchive).toEqual([
+      { round: 1, prompt: state.currentPrompt, promptSource: state.promptSource, answers: [] },
+    ]);
+  });
+
+  it("starts over when the game restarts", async () => {
+    const simulator = new GameSimulator({ playerCount: 3, rounds: 3 });
+    await simulator.runFullGame();
+
+    simulator.server.sendMessage(simulator.host.conn, { type: "restart" });
+
+    expect(simulator.getState().gameArchive).toEqual([]);
+  });
+});
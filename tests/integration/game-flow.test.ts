@@ -58,7 +58,7 @@ describe("Game Flow - Full Lifecycle", () => {
 
   describe("Full game cycle", () => {
     it("completes LOBBY → WRITING → VOTING → REVEAL → FINAL flow", async () => {
-      // Start game with round limit of 3 (valid values are 3, 5, 10, or null)
+      // Start game with round limit of 3 (any whole number from 1 to 50, or null)
       server.sendMessage(host.conn, {
         type: "start",
         theme: "test theme",
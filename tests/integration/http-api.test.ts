@@ -0,0 +1,198 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import type * as Party from "partykit/server";
+import { createTestServer, TestServer } from "../utils/party-test-server";
+import { createMockPlayer, MockPlayer } from "../utils/mock-player";
+import { PHASES, type GameState } from "../../party/main";
+
+describe("HTTP API (onRequest)", () => {
+  const ADMIN_KEY = "http-admin-key";
+  let server: TestServer;
+  let host: MockPlayer;
+  let player2: MockPlayer;
+
+  beforeEach(() => {
+    vi.restoreAllMocks();
+    server = createTestServer("http-test", { ADMIN_SECRET_KEY: ADMIN_KEY });
+    host = createMockPlayer(server, "Host");
+    player2 = createMockPlayer(server, "Player2");
+  });
+
+  function request(method: string, body?: object, key: string | null = ADMIN_KEY) {
+    const headers: Record<string, string> = { "Content-Type": "application/json" };
+    if (key !== null) headers.Authorization = `Bearer ${key}`;
+    const req = new Request("http://localhost/parties/main/http-test", {
+      method,
+      headers,
+      body: body ? JSON.stringify(body) : undefined,
+    });
+    return server.server.onRequest(req as unknown as Party.Request);
+  }
+
+  async function startGame() {
+    server.sendMessage(host.conn, { type: "start", theme: "test", roundLimit: 3 });
+    await server.waitForGeneration();
+  }
+
+  describe("GET status", () => {
+    it("returns room status with CORS headers", async () => {
+      const res = await request("GET");
+
+      expect(res.status).toBe(200);
+      expect(res.headers.get("Access-Control-Allow-Origin")).toBe("*");
+      expect(await res.json()).toEqual({
+        roomId: "http-test",
+        phase: PHASES.LOBBY,
+        round: 0,
+        roundLimit: null,
+        playerCount: 2,
+        isGameInProgress: false,
+        exists: true,
+      });
+    });
+
+    it("only counts connected players", async () => {
+      server.disconnect(player2.id);
+
+      const status = await (await request("GET")).json();
+      expect(status.playerCount).toBe(1);
+    });
+
+    it("still exists while every player is disconnected", async () => {
+      server.disconnect(host.id);
+      server.disconnect(player2.id);
+
+      const status = await (await request("GET")).json();
+      expect(status.playerCount).toBe(0);
+      expect(status.exists).toBe(true);
+    });
+
+    it("doesn't exist once every player is past the grace period", async () => {
+      server.disconnect(host.id);
+      server.disconnect(player2.id);
+      // Left six minutes ago; cleanup hasn't run because no round has started since
+      const players = server.server.state.players;
+      Object.values(players).forEach(p => p.disconnectedAt = Date.now() - 6 * 60 * 1000);
+
+      const status = await (await request("GET")).json();
+      expect(status.exists).toBe(false);
+      expect(Object.keys(players)).toHaveLength(2);
+    });
+
+    it("exists with only a display observer connected", async () => {
+      const empty = createTestServer("http-display", {});
+      empty.sendMessage(empty.connect("display-1"), { type: "observe" });
+
+      const res = await empty.server.onRequest(new Request("http://localhost/parties/main/http-display") as unknown as Party.Request);
+      expect((await res.json()).exists).toBe(true);
+    });
+
+    it("doesn't exist before anyone joins", async () => {
+      const empty = createTestServer("http-empty", {});
+
+      const res = await empty.server.onRequest(new Request("http://localhost/parties/main/http-empty") as unknown as Party.Request);
+      expect(await res.json()).toMatchObject({ playerCount: 0, exists: false });
+    });
+
+    it("reports a game in progress", async () => {
+      await startGame();
+
+      const status = await (await request("GET")).json();
+      expect(status.phase).toBe(PHASES.WRITING);
+      expect(status.round).toBe(1);
+      expect(status.isGameInProgress).toBe(true);
+    });
+
+    it("answers CORS preflight", async () => {
+      const res = await request("OPTIONS", undefined, null);
+
+      expect(res.status).toBe(204);
+      expect(res.headers.get("Access-Control-Allow-Headers")).toContain("Authorization");
+    });
+  });
+
+  describe("POST admin actions", () => {
+    it("rejects requests without a valid key", async () => {
+      expect((await request("POST", { action: "reset" }, null)).status).toBe(401);
+      expect((await request("POST", { action: "reset" }, "wrong-key")).status).toBe(401);
+    });
+
+    it("rejects all admin requests when ADMIN_SECRET_KEY is unset", async () => {
+      server = createTestServer("no-key", {});
+      expect((await request("POST", { action: "reset" }, "")).status).toBe(401);
+    });
+
+    it("sets and clears prompt overrides", async () => {
+      const res = await request("POST", {
+        action: "set-override",
+        exactQuestion: "What is the worst pizza topping?",
+        promptGuidance: "Keep it food related",
+      });
+
+      expect(res.status).toBe(200);
+      let state = server.getState() as GameState;
+      expect(state.exactQuestion).toBe("What is the worst pizza topping?");
+      expect(state.promptGuidance).toBe("Keep it food related");
+
+      await request("POST", { action: "set-override", exactQuestion: null });
+      state = server.getState() as GameState;
+      expect(state.exactQuestion).toBeNull();
+      expect(state.promptGuidance).toBe("Keep it food related");
+    });
+
+    it("rejects overrides with the wrong types", async () => {
+      const res = await request("POST", { action: "set-override", exactQuestion: 42 });
+
+      expect(res.status).toBe(400);
+      expect((server.getState() as GameState).exactQuestion).toBeNull();
+    });
+
+    it("ends the writing phase", async () => {
+      await startGame();
+      host.answer("host answer");
+      // Player2 is AFK
+
+      const res = await request("POST", { action: "end-phase" });
+
+      expect(res.status).toBe(200);
+      expect((server.getState() as GameState).phase).toBe(PHASES.VOTING);
+    });
+
+    it("refuses to end a phase outside WRITING or VOTING", async () => {
+      const res = await request("POST", { action: "end-phase" });
+
+      expect(res.status).toBe(409);
+      expect((server.getState() as GameState).phase).toBe(PHASES.LOBBY);
+    });
+
+    it("resets a game in progress back to the lobby", async () => {
+      await startGame();
+      host.answer("host answer");
+
+      const res = await request("POST", { action: "reset" });
+
+      expect(res.status).toBe(200);
+      const state = server.getState() as GameState;
+      expect(state.phase).toBe(PHASES.LOBBY);
+      expect(state.round).toBe(0);
+      expect(state.answers).toEqual({});
+      expect(Object.keys(state.players)).toHaveLength(2);
+      expect(host.getLastState()?.phase).toBe(PHASES.LOBBY);
+    });
+
+    it("rejects unknown actions and malformed bodies", async () => {
+      expect((await request("POST", { action: "explode" })).status).toBe(400);
+
+      const req = new Request("http://localhost/parties/main/http-test", {
+        method: "POST",
+        headers: { Authorization: `Bearer ${ADMIN_KEY}` },
+        body: "not json",
+      });
+      const res = await server.server.onRequest(req as unknown as Party.Request);
+      expect(res.status).toBe(400);
+    });
+  });
+
+  it("rejects other methods", async () => {
+    expect((await request("DELETE")).status).toBe(405);
+  });
+});
@@ -0,0 +1,84 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { createTestServer, TestServer } from "../utils/party-test-server";
+import { createMockPlayer, MockPlayer } from "../utils/mock-player";
+import { PHASES, type GameState } from "../../party/main";
+
+describe("Lobby Settings (update-settings)", () => {
+  let server: TestServer;
+  let host: MockPlayer;
+  let player2: MockPlayer;
+
+  beforeEach(() => {
+    vi.restoreAllMocks();
+    server = createTestServer("settings-test", {});
+    host = createMockPlayer(server, "Host");
+    player2 = createMockPlayer(server, "Player2");
+  });
+
+  it("broadcasts host settings to every player", () => {
+    server.sendMessage(host.conn, {
+      type: "update-settings",
+      theme: "Office nightmares",
+      roundLimit: 5,
+      writingTimeLimit: 60,
+    });
+
+    const seen = player2.getLastState();
+    expect(seen?.theme).toBe("Office nightmares");
+    expect(seen?.roundLimit).toBe(5);
+    expect(seen?.writingTimeLimit).toBe(60);
+  });
+
+  it("only changes the keys present in the message", () => {
+    server.sendMessage(host.conn, { type: "update-settings", theme: "Dating disasters", roundLimit: 10 });
+    server.sendMessage(host.conn, { type: "update-settings", roundLimit: 3 });
+
+    const state = server.getState() as GameState;
+    expect(state.theme).toBe("Dating disasters");
+    expect(state.roundLimit).toBe(3);
+  });
+
+  it("validates values the same way start does", () => {
+    server.sendMessage(host.conn, {
+      type: "update-settings",
+      theme: "x".repeat(200),
+      roundLimit: 70,
+      votingTimeLimit: 2,
+    });
+
+    const state = server.getState() as GameState;
+    expect(state.theme).toHaveLength(100);
+    expect(state.roundLimit).toBeNull();
+    expect(state.votingTimeLimit).toBeNull();
+  });
+
+  it("ignores updates from non-hosts", () => {
+    server.sendMessage(player2.conn, { type: "update-settings", theme: "hijacked" });
+
+    const state = server.getState() as GameState;
+    expect(state.theme).toBe("");
+  });
+
+  it("ignores updates once the game has started", async () => {
+    server.sendMessage(host.conn, { type: "start", theme: "original", roundLimit: 3 });
+    await server.waitForGeneration();
+
+    server.sendMessage(host.conn, { type: "update-settings", theme: "changed", roundLimit: 10 });
+
+    const state = server.getState() as GameState;
+    expect(state.phase).toBe(PHASES.WRITING);
+    expect(state.theme).toBe("original");
+    expect(state.roundLimit).toBe(3);
+  });
+
+  it("starts with lobby settings when start omits them", async () => {
+    server.sendMessage(host.conn, { type: "update-settings", theme: "Road trips", roundLimit: 5 });
+    server.sendMessage(host.conn, { type: "start" });
+    await server.waitForGeneration();
+
+    const state = server.getState() as GameState;
+    expect(state.phase).toBe(PHASES.WRITING);
+    expect(state.theme).toBe("Road trips");
+    expect(state.roundLimit).toBe(5);
+  });
+});
@@ -0,0 +1,139 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { createTestServer, TestServer } from "../utils/party-test-server";
+import { createMockPlayer, MockPlayer } from "../utils/mock-player";
+import { PHASES, type GameState } from "../../party/main";
+
+describe("Host Moderation (kick/ban)", () => {
+  const ADMIN_KEY = "moderation-admin-key";
+  let server: TestServer;
+  let host: MockPlayer;
+  let player2: MockPlayer;
+  let troll: MockPlayer;
+
+  beforeEach(() => {
+    vi.restoreAllMocks();
+    server = createTestServer("moderation-test", { ADMIN_SECRET_KEY: ADMIN_KEY });
+    host = createMockPlayer(server, "Host");
+    player2 = createMockPlayer(server, "Player2");
+    troll = createMockPlayer(server, "Troll");
+  });
+
+  describe("Kick", () => {
+    it("removes the player and closes their connection", () => {
+      const trollConn = troll.conn;
+      host.kick(troll.id);
+
+      const state = server.getState() as GameState;
+      expect(state.players[troll.id]).toBeUndefined();
+      expect(trollConn.closed).toBe(true);
+      const removed = trollConn.getAllMessages().find(
+        (m) => (m as { type: string }).type === "removed"
+      );
+      expect(removed).toEqual({ type: "removed", reason: "kicked" });
+    });
+
+    it("lets a kicked player rejoin as a fresh player", async () => {
+      host.kick(troll.id);
+      await troll.reconnect();
+
+      const state = server.getState() as GameState;
+      expect(state.players[troll.id]).toBeDefined();
+      expect(state.players[troll.id].score).toBe(0);
+    });
+
+    it("ignores kick from a non-host player", () => {
+      player2.kick(troll.id);
+
+      const state = server.getState() as GameState;
+      expect(state.players[troll.id]).toBeDefined();
+    });
+
+    it("ignores a host kicking themselves", () => {
+      host.kick(host.id);
+
+      const state = server.getState() as GameState;
+      expect(state.players[host.id]).toBeDefined();
+      expect(state.hostId).toBe(host.id);
+    });
+
+    it("allows an admin who isn't host to kick, transferring host if needed", () => {
+      const admin = createMockPlayer(server, "Admin", undefined, ADMIN_KEY);
+      admin.kick(host.id);
+
+      const state = server.getState() as GameState;
+      expect(state.players[host.id]).toBeUndefined();
+      expect(state.hostId).toBe(player2.id);
+    });
+
+    it("removes the kicked player's answer from voting", async () => {
+      server.sendMessage(host.conn, { type: "start", theme: "test", roundLimit: 3 });
+      await server.waitForGeneration();
+
+      troll.answer("offensive answer");
+      host.answer("host answer");
+      player2.answer("player2 answer");
+      expect((server.getState() as GameState).phase).toBe(PHASES.VOTING);
+
+      host.kick(troll.id);
+
+      const state = server.getState() as GameState;
+      expect(state.answers[troll.id]).toBeUndefined();
+      expect(state.answerOrder).not.toContain(troll.id);
+    });
+
+    it("advances WRITING when the kicked player was the only one left to submit", async () => {
+      server.sendMessage(host.conn, { type: "start", theme: "test", roundLimit: 3 });
+      await server.waitForGeneration();
+
+      host.answer("host answer");
+      player2.answer("player2 answer");
+      host.kick(troll.id);
+
+      const state = server.getState() as GameState;
+      expect(state.phase).toBe(PHASES.VOTING);
+      expect(state.answerOrder).toHaveLength(2);
+    });
+  });
+
+  describe("Ban", () => {
+    it("rejects the banned id on rejoin", async () => {
+      host.ban(troll.id);
+      const conn = await troll.reconnect();
+
+      const state = server.getState() as GameState;
+      expect(state.players[troll.id]).toBeUndefined();
+      expect(state.bannedPlayerIds).toContain(troll.id);
+      expect(conn.closed).toBe(true);
+    });
+
+    it("rejects the banned id as an observer", () => {
+      host.ban(troll.id);
+      const conn = server.connect(troll.id);
+      server.sendMessage(conn, { type: "observe" });
+
+      expect(server.server.observerIds.has(troll.id)).toBe(false);
+      expect(conn.getAllMessages()).toContainEqual({ type: "removed", reason: "banned" });
+      expect(conn.closed).toBe(true);
+    });
+
+    it("keeps bans across game restarts", async () => {
+      host.ban(troll.id);
+      server.server.state.phase = PHASES.FINAL;
+      server.sendMessage(host.conn, { type: "restart" });
+
+      await troll.reconnect();
+
+      const state = server.getState() as GameState;
+      expect(state.phase).toBe(PHASES.LOBBY);
+      expect(state.players[troll.id]).toBeUndefined();
+    });
+
+    it("ignores ban from a non-host player", () => {
+      player2.ban(troll.id);
+
+      const state = server.getState() as GameState;
+      expect(state.bannedPlayerIds).toHaveLength(0);
+      expect(state.players[troll.id]).toBeDefined();
+    });
+  });
+});
@@ -163,6 +163,10 @@ describe("Multiplayer Synchronization", () => {
       player2.vote(hostIndex);
 
       server.sendMessage(host.conn, { type: "end-voting" });
+      // Step through the reveal sequence to the end
+      while (server.server.state.revealStep < server.server.revealStepCount()) {
+        server.sendMessage(host.conn, { type: "reveal-next" });
+      }
 
       // In reveal phase, answers should include playerId
       const hostState = host.getLastState();
@@ -0,0 +1,78 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { createTestServer, TestServer } from "../utils/party-test-server";
+import { createMockPlayer, MockPlayer } from "../utils/mock-player";
+import { PHASES, type GameState } from "../../party/main";
+
+describe("Display Observers", () => {
+  let server: TestServer;
+  let host: MockPlayer;
+  let player2: MockPlayer;
+
+  beforeEach(() => {
+    server = createTestServer("display-test", {});
+    host = createMockPlayer(server, "Host");
+    player2 = createMockPlayer(server, "Player2");
+  });
+
+  function observe(id = "display-1") {
+    const conn = server.connect(id);
+    server.sendMessage(conn, { type: "observe" });
+    return conn;
+  }
+
+  it("counts observers separately from players", () => {
+    observe();
+
+    const state = server.getState() as GameState;
+    expect(Object.keys(state.players)).toHaveLength(2);
+    expect(server.server.getActivePlayers()).toHaveLength(2);
+    expect(server.server.observerIds.has("display-1")).toBe(true);
+    expect(host.getLastState()?.observerCount).toBe(1);
+  });
+
+  it("keeps observers up to date with anonymous answers", async () => {
+    const display = observe();
+    server.sendMessage(host.conn, { type: "start", theme: "test", roundLimit: 3 });
+    await server.waitForGeneration();
+    host.answer("Host answer");
+    player2.answer("Player2 answer");
+
+    const state = display.getStates().at(-1)!;
+    expect(state.phase).toBe(PHASES.VOTING);
+    expect(state.answers.map(a => a.answer).sort()).toEqual(["Host answer", "Player2 answer"]);
+    expect(state.answers.every(a => a.playerId === undefined && !a.isOwn)).toBe(true);
+    expect(display.getAllMessages().some(m => (m as { type: string }).type === "own-answer")).toBe(false);
+  });
+
+  it("ignores game actions from observers", () => {
+    const display = observe();
+    server.sendMessage(display, { type: "chat", text: "hello" });
+    server.sendMessage(display, { type: "update-settings", theme: "tv takeover" });
+
+    expect(server.server.chatMessages).toHaveLength(0);
+    expect((server.getState() as GameState).theme).toBe("");
+  });
+
+  it("does not let a host disconnect hand the room to a display", () => {
+    observe();
+    host.disconnect();
+    player2.disconnect();
+
+    expect((server.getState() as GameState).hostId).not.toBe("display-1");
+  });
+
+  it("drops the observer when the display closes", () => {
+    observe();
+    server.disconnect("display-1");
+
+    expect(server.server.observerIds.size).toBe(0);
+    expect(host.getLastState()?.observerCount).toBe(0);
+  });
+
+  it("does not turn a player into an observer", () => {
+    server.sendMessage(host.conn, { type: "observe" });
+
+    expect(server.server.observerIds.size).toBe(0);
+    expect((server.getState() as GameState).players[host.id]).toBeDefined();
+  });
+});
@@ -0,0 +1,196 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { createTestServer, TestServer } from "../utils/party-test-server";
+import { createMockPlayer, MockPlayer } from "../utils/mock-player";
+import { PHASES, type GameState, type ChatMessage } from "../../party/main";
+
+describe("Room State Persistence", () => {
+  let server: TestServer;
+  let host: MockPlayer;
+  let player2: MockPlayer;
+
+  beforeEach(() => {
+    vi.restoreAllMocks();
+    server = createTestServer("persist-test", { CHAT_ENABLED: "true" });
+    host = createMockPlayer(server, "Host");
+    player2 = createMockPlayer(server, "Player2");
+  });
+
+  async function playToReveal() {
+    server.sendMessage(host.conn, { type: "start", theme: "test", roundLimit: 5 });
+    await server.waitForGeneration();
+    host.answer("host answer");
+    player2.answer("player2 answer");
+    const state = server.getState() as GameState;
+    host.vote(state.answerOrder.indexOf(player2.id));
+    player2.vote(state.answerOrder.indexOf(host.id));
+    await server.waitForGeneration();
+  }
+
+  describe("Snapshotting", () => {
+    it("writes game state to storage on every transition", async () => {
+      await playToReveal();
+
+      const stored = await server.room.storage.get<GameState>("state");
+      expect(stored?.phase).toBe(PHASES.REVEAL);
+      expect(stored?.round).toBe(1);
+      expect(stored?.players[player2.id].score).toBeGreaterThan(0);
+    });
+
+    it("keeps the archive and prompt pack out of the state snapshot", async () => {
+      server.sendMessage(host.conn, {
+        type: "set-prompt-pack",
+        pack: { name: "Big deck", prompts: Array.from({ length: 10 }, (_, i) => `Prompt ${i} about {name}`) },
+      });
+      await playToReveal();
+
+      const stored = await server.room.storage.get<Record<string, unknown>>("state");
+      expect(stored).not.toHaveProperty("gameArchive");
+      expect(stored).not.toHaveProperty("promptPack");
+      expect(stored).not.toHaveProperty("recap");
+      expect(stored?.archivedRounds).toBe(1);
+      expect(await server.room.storage.get("archive:0")).toEqual((server.getState() as GameState).gameArchive[0]);
+      expect(await server.room.storage.get("prompt-pack")).toMatchObject({ name: "Big deck" });
+    });
+
+    it("writes chat messages to storage", async () => {
+      host.chat("hello there");
+
+      const stored = await server.room.storage.get<{ messages: ChatMessage[] }>("chat");
+      expect(stored?.messages).toHaveLength(1);
+      expect(stored?.messages[0].text).toBe("hello there");
+    });
+  });
+
+  describe("Rehydration in onStart", () => {
+    it("restores phase, round, scores and round history", async () => {
+      await playToReveal();
+      const before = server.getState() as GameState;
+      const player2Score = before.players[player2.id].score;
+
+      await server.restart();
+
+      const after = server.getState() as GameState;
+      expect(after.phase).toBe(PHASES.REVEAL);
+      expect(after.round).toBe(1);
+      expect(after.roundLimit).toBe(5);
+      expect(after.players[player2.id].score).toBe(player2Score);
+      expect(after.roundHistory).toHaveLength(1);
+      expect(after.hostId).toBe(host.id);
+    });
+
+    it("restores the archive and prompt pack from their own keys", async () => {
+      server.sendMessage(host.conn, {
+        type: "set-prompt-pack",
+        pack: { name: "Big deck", prompts: Array.from({ length: 10 }, (_, i) => `Prompt ${i} about {name}`) },
+      });
+      await playToReveal();
+      const archive = (server.getState() as GameState).gameArchive;
+
+      await server.restart();
+
+      const after = server.getState() as GameState;
+      expect(after.gameArchive).toEqual(archive);
+      expect(after.promptPack.name).toBe("Big deck");
+    });
+
+    it("restores snapshots that still carry the archive inline", async () => {
+      await playToReveal();
+      const { gameArchive } = server.getState() as GameState;
+      const stored = await server.room.storage.get<Record<string, unknown>>("state");
+      // eslint-disable-next-line @typescript-eslint/no-unused-vars
+      const { archivedRounds, recapId, ...legacy } = stored!;
+      await server.room.storage.put("state", { ...legacy, gameArchive });
+      await server.room.storage.delete("archive:0");
+
+      await server.restart();
+
+      expect((server.getState() as GameState).gameArchive).toEqual(gameArchive);
+    });
+
+    it("marks restored players disconnected until they rejoin", async () => {
+      await playToReveal();
+      const player2Score = (server.getState() as GameState).players[player2.id].score;
+
+      await server.restart();
+
+      let state = server.getState() as GameState;
+      expect(state.players[host.id].disconnectedAt).toBeDefined();
+      expect(server.server.getActivePlayers()).toHaveLength(0);
+
+      await player2.reconnect();
+
+      state = server.getState() as GameState;
+      expect(state.players[player2.id].disconnectedAt).toBeUndefined();
+      expect(state.players[player2.id].score).toBe(player2Score);
+    });
+
+    it("restores chat history and summary", async () => {
+      host.chat("first");
+      player2.chat("second");
+      server.server.chatSummary = "Players are joking about pizza";
+      server.server.persistChat();
+
+      await server.restart();
+
+      expect(server.server.chatMessages.map(m => m.text)).toEqual(["first", "second"]);
+      expect(server.server.chatSummary).toBe("Players are joking about pizza");
+    });
+
+    it("starts fresh when storage is empty", async () => {
+      const empty = createTestServer("empty-room");
+      await empty.server.onStart();
+
+      const state = empty.getState() as GameState;
+      expect(state.phase).toBe(PHASES.LOBBY);
+      expect(Object.keys(state.players)).toHaveLength(0);
+    });
+  });
+
+  describe("In-flight generation recovery", () => {
+    it("restarts first prompt generation interrupted during game start", async () => {
+      // First instance never gets an API answer
+      vi.spyOn(global, "fetch").mockImplementation(() => new Promise(() => {}));
+      server = createTestServer("persist-start", { XAI_API_KEY: "test-key" });
+      host = createMockPlayer(server, "Host");
+      player2 = createMockPlayer(server, "Player2");
+      server.sendMessage(host.conn, { type: "start", theme: "test", roundLimit: 3 });
+
+      const staleGenId = (server.getState() as GameState).generationId;
+      expect((server.getState() as GameState).isGenerating).toBe(true);
+
+      vi.restoreAllMocks();
+      vi.spyOn(global, "fetch").mockImplementation(async () =>
+        new Response(JSON.stringify({
+          choices: [{ message: { content: "Resumed prompt about Host" } }],
+        }))
+      );
+
+      await server.restart();
+      await server.waitForGeneration();
+
+      const state = server.getState() as GameState;
+      expect(state.generationId).toBeGreaterThan(staleGenId);
+      expect(state.phase).toBe(PHASES.WRITING);
+      expect(state.round).toBe(1);
+      expect(state.currentPrompt).toBe("Resumed prompt about Host");
+    });
+
+    it("fills a loading prompt with a fallback after restart", async () => {
+      await playToReveal();
+      // Simulate a next-round click while the prompt was still generating
+      server.server.state.promptQueue = [];
+      server.server.state.isGenerating = true;
+      server.sendMessage(host.conn, { type: "next-round" });
+      expect((server.getState() as GameState).isPromptLoading).toBe(true);
+
+      await server.restart();
+
+      const state = server.getState() as GameState;
+      expect(state.phase).toBe(PHASES.WRITING);
+      expect(state.isPromptLoading).toBe(false);
+      expect(state.isGenerating).toBe(false);
+      expect(state.promptSource).toBe("fallback");
+      expect(state.currentPrompt).not.toBe("Generating question...");
+    });
+  });
+});
@@ -0,0 +1,175 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { createTestServer, TestServer } from "../utils/party-test-server";
+import { createMockPlayer, MockPlayer } from "../utils/mock-player";
+import { PHASES, parsePhaseTimeLimit, type GameState } from "../../party/main";
+
+describe("Server-Enforced Phase Timers", () => {
+  let server: TestServer;
+  let host: MockPlayer;
+  let player2: MockPlayer;
+  let player3: MockPlayer;
+
+  beforeEach(() => {
+    vi.restoreAllMocks();
+    server = createTestServer("timer-test", {});
+    host = createMockPlayer(server, "Host");
+    player2 = createMockPlayer(server, "Player2");
+    player3 = createMockPlayer(server, "Player3");
+  });
+
+  async function startTimedGame(writingTimeLimit: unknown = 60, votingTimeLimit: unknown = 30) {
+    server.sendMessage(host.conn, {
+      type: "start",
+      theme: "test",
+      roundLimit: 3,
+      writingTimeLimit,
+      votingTimeLimit,
+    });
+    await server.waitForGeneration();
+  }
+
+  // Jump the clock past the current deadline and fire the alarm
+  async function expireDeadline() {
+    const endsAt = (server.getState() as GameState).phaseDeadline!.endsAt;
+    vi.spyOn(Date, "now").mockReturnValue(endsAt + 1);
+    await server.server.onAlarm();
+    vi.mocked(Date.now).mockRestore();
+  }
+
+  describe("Time limit validation", () => {
+    it("accepts whole seconds within bounds", () => {
+      expect(parsePhaseTimeLimit(60)).toBe(60);
+      expect(parsePhaseTimeLimit("90")).toBe(90);
+    });
+
+    it("rejects out-of-range or malformed values", () => {
+      expect(parsePhaseTimeLimit(5)).toBeNull();
+      expect(parsePhaseTimeLimit(10000)).toBeNull();
+      expect(parsePhaseTimeLimit(30.5)).toBeNull();
+      expect(parsePhaseTimeLimit("abc")).toBeNull();
+      expect(parsePhaseTimeLimit(null)).toBeNull();
+      expect(parsePhaseTimeLimit(undefined)).toBeNull();
+    });
+
+    it("defaults to no timers when start omits them", async () => {
+      await startTimedGame(null, null);
+
+      const state = server.getState() as GameState;
+      expect(state.phase).toBe(PHASES.WRITING);
+      expect(state.phaseDeadline).toBeNull();
+      expect(host.getLastState()?.phaseEndsAt).toBeNull();
+    });
+  });
+
+  describe("Deadline scheduling", () => {
+    it("arms a writing deadline and broadcasts phaseEndsAt", async () => {
+      const before = Date.now();
+      await startTimedGame();
+
+      const state = server.getState() as GameState;
+      expect(state.phaseDeadline?.phase).toBe(PHASES.WRITING);
+      expect(state.phaseDeadline!.endsAt).toBeGreaterThanOrEqual(before + 60000);
+      expect(host.getLastState()?.phaseEndsAt).toBe(state.phaseDeadline!.endsAt);
+      expect(await server.room.storage.getAlarm()).toBe(state.phaseDeadline!.endsAt);
+    });
+
+    it("arms a voting deadline when writing ends", async () => {
+      await startTimedGame();
+      host.answer("host answer");
+      player2.answer("player2 answer");
+      const before = Date.now();
+      server.sendMessage(host.conn, { type: "end-writing" });
+
+      const state = server.getState() as GameState;
+      expect(state.phase).toBe(PHASES.VOTING);
+      expect(state.phaseDeadline?.phase).toBe(PHASES.VOTING);
+      expect(state.phaseDeadline!.endsAt).toBeGreaterThanOrEqual(before + 30000);
+      expect(state.phaseDeadline!.endsAt).toBeLessThan(before + 60000);
+    });
+
+    it("clears the deadline when the phase ends early", async () => {
+      await startTimedGame(60, null);
+      host.answer("a");
+      player2.answer("b");
+      player3.answer("c");
+
+      const state = server.getState() as GameState;
+      expect(state.phase).toBe(PHASES.VOTING);
+      expect(state.phaseDeadline).toBeNull();
+      expect(await server.room.storage.getAlarm()).toBeNull();
+    });
+  });
+
+  describe("Alarm handling", () => {
+    it("ends WRITING when the deadline passes", async () => {
+      await startTimedGame();
+      host.answer("host answer");
+      player2.answer("player2 answer");
+      // Player3 is AFK
+
+      await expireDeadline();
+
+      const state = server.getState() as GameState;
+      expect(state.phase).toBe(PHASES.VOTING);
+      expect(state.answerOrder).toHaveLength(2);
+      expect(state.phaseDeadline?.phase).toBe(PHASES.VOTING);
+    });
+
+    it("ends VOTING when the deadline passes", async () => {
+      await startTimedGame();
+      host.answer("a");
+      player2.answer("b");
+      player3.answer("c");
+
+      const state = server.getState() as GameState;
+      host.vote(state.answerOrder.indexOf(player2.id));
+
+      await expireDeadline();
+
+      const after = server.getState() as GameState;
+      expect(after.phase).toBe(PHASES.REVEAL);
+      // The only deadline left is the reveal sequence's next step
+      expect(after.phaseDeadline?.phase).toBe(PHASES.REVEAL);
+      expect(after.players[player2.id].score).toBeGreaterThan(0);
+    });
+
+    it("re-arms instead of ending the phase when fired early", async () => {
+      await startTimedGame();
+      const endsAt = (server.getState() as GameState).phaseDeadline!.endsAt;
+
+      await server.server.onAlarm();
+
+      expect((server.getState() as GameState).phase).toBe(PHASES.WRITING);
+      expect(await server.room.storage.getAlarm()).toBe(endsAt);
+    });
+
+    it("ignores a deadline from a previous game", async () => {
+      await startTimedGame();
+      const staleDeadline = (server.getState() as GameState).phaseDeadline!;
+
+      server.server.state.generationId++;
+      vi.spyOn(Date, "now").mockReturnValue(staleDeadline.endsAt + 1);
+      await server.server.onAlarm();
+
+      expect((server.getState() as GameState).phase).toBe(PHASES.WRITING);
+    });
+
+    it("keeps the deadline across a server restart", async () => {
+      await startTimedGame();
+      const endsAt = (server.getState() as GameState).phaseDeadline!.endsAt;
+
+      await server.restart();
+      await host.reconnect();
+      await player2.reconnect();
+      await player3.reconnect();
+      host.answer("a");
+
+      await expireDeadline();
+
+      const state = server.getState() as GameState;
+      expect(state.phaseDeadline?.phase).toBe(PHASES.VOTING);
+      expect(state.phaseDeadline!.endsAt).toBeGreaterThan(endsAt);
+      expect(state.phase).toBe(PHASES.VOTING);
+    });
+  });
+});
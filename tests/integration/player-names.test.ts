@@ -0,0 +1,66 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { createTestServer, TestServer } from "../utils/party-test-server";
+import { createMockPlayer, MockPlayer } from "../utils/mock-player";
+import type { GameState } from "../../party/main";
+
+describe("Player Names", () => {
+  const ADMIN_KEY = "names-admin-key";
+  let server: TestServer;
+  let host: MockPlayer;
+
+  beforeEach(() => {
+    server = createTestServer("names-test", { ADMIN_SECRET_KEY: ADMIN_KEY });
+    host = createMockPlayer(server, "Ben");
+  });
+
+  function nameOf(player: MockPlayer) {
+    return (server.getState() as GameState).players[player.id]?.name;
+  }
+
+  function nameRejection(player: MockPlayer) {
+    return player.conn.getAllMessages().find(
+      (m) => (m as { type: string; code?: string }).type === "error" && (m as { code?: string }).code === "name-rejected"
+    ) as { message: string } | undefined;
+  }
+
+  it("stores names without invisible characters", () => {
+    const player = createMockPlayer(server, "\u200BZoë\u200F");
+    expect(nameOf(player)).toBe("Zoë");
+  });
+
+  it("tells lookalike names apart with a suffix", () => {
+    const zeroWidth = createMockPlayer(server, "Ben\u200B");
+    const cyrillic = createMockPlayer(server, "Веn");
+    const fullwidth = createMockPlayer(server, "Ｂｅｎ");
+
+    expect(nameOf(host)).toBe("Ben");
+    expect(nameOf(zeroWidth)).toBe("Ben 2");
+    expect(nameOf(cyrillic)).toBe("Веn 3");
+    expect(nameOf(fullwidth)).toBe("Ben 4");
+  });
+
+  it("rejects reserved names so the player can pick another", () => {
+    const player = createMockPlayer(server, "Moderator");
+
+    expect(nameOf(player)).toBeUndefined();
+    expect(nameRejection(player)?.message).toContain("reserved");
+
+    server.sendMessage(player.conn, { type: "join", name: "Mo" });
+    expect(nameOf(player)).toBe("Mo");
+  });
+
+  it("lets a validated admin use a reserved name", () => {
+    const admin = createMockPlayer(server, "Admin", undefined, ADMIN_KEY);
+    expect(nameOf(admin)).toBe("Admin");
+  });
+
+  it("keeps a reconnecting player's name if the new one looks like someone else's", async () => {
+    const player = createMockPlayer(server, "Sam");
+    await server.settle();
+    player.disconnect();
+    server.joinPlayer("Веn", player.id, undefined, player.getSessionToken()!);
+    await server.settle();
+
+    expect(nameOf(player)).toBe("Sam");
+  });
+});
@@ -266,8 +266,46 @@ describe("Prompt Generation", () => {
       await server.waitForGeneration();
 
       const revealState = server.getState() as GameState;
-      expect(revealState.nextPrompt).toBe("Pre-generated prompt about Host");
-      expect(revealState.nextPromptSource).toBe("ai");
+      expect(revealState.promptQueue[0].prompt).toBe("Pre-generated prompt about Host");
+      expect(revealState.promptQueue[0].source).toBe("ai");
+    });
+  });
+
+  describe("LLM provider selection", () => {
+    it("generates prompts offline with the stub provider", async () => {
+      const fetchSpy = vi.spyOn(global, "fetch");
+      server = createTestServer("prompt-test", { LLM_PROVIDER: "stub" });
+      host = createMockPlayer(server, "Host");
+      player2 = createMockPlayer(server, "Player2");
+
+      server.sendMessage(host.conn, { type: "start", theme: "test", roundLimit: 3 });
+      await server.waitForGeneration();
+
+      const state = server.getState() as GameState;
+      expect(state.promptSource).toBe("ai");
+      expect(state.currentPrompt).toMatch(/Host|Player2/);
+      expect(fetchSpy).not.toHaveBeenCalled();
+    });
+
+    it("sends requests to a configured OpenAI-compatible endpoint", async () => {
+      const fetchSpy = vi.spyOn(global, "fetch").mockResolvedValue(
+        new Response(JSON.stringify({
+          choices: [{ message: { content: "Local model question about Host" } }],
+        }))
+      );
+      server = createTestServer("prompt-test", {
+        LLM_PROVIDER: "openai",
+        LLM_BASE_URL: "http://localhost:8080/v1",
+        LLM_MODEL: "local-model",
+      });
+      host = createMockPlayer(server, "Host");
+      player2 = createMockPlayer(server, "Player2");
+
+      server.sendMessage(host.conn, { type: "start", theme: "test", roundLimit: 3 });
+      await server.waitForGeneration();
+
+      expect(fetchSpy.mock.calls[0][0]).toBe("http://localhost:8080/v1/chat/completions");
+      expect((server.getState() as GameState).currentPrompt).toBe("Local model question about Host");
     });
   });
 });
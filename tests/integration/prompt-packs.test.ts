@@ -0,0 +1,169 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { createTestServer, TestServer } from "../utils/party-test-server";
+import { createMockPlayer, MockPlayer } from "../utils/mock-player";
+import { PHASES, selectFallbackPrompt, type GameState } from "../../party/main";
+import { parsePromptPack, SFW_PROMPTS } from "../../party/packs";
+
+describe("Prompt Packs", () => {
+  describe("parsePromptPack", () => {
+    it("accepts a JSON pack", () => {
+      const pack = parsePromptPack({
+        name: "Team offsite",
+        prompts: ["{name}'s desk snack", "{name}'s worst meeting habit", "What {name} does on mute"],
+        packOnly: true,
+      });
+
+      expect(pack).toEqual({
+        id: "custom",
+        name: "Team offsite",
+        prompts: [
+          { text: "{name}'s desk snack", rating: "family" },
+          { text: "{name}'s worst meeting habit", rating: "family" },
+          { text: "What {name} does on mute", rating: "family" },
+        ],
+        packOnly: true,
+      });
+    });
+
+    it("accepts newline-separated text, skipping comments and blank lines", () => {
+      const pack = parsePromptPack({
+        name: "Text pack",
+        prompts: "# My pack\nFirst about {name}\n\nSecond about {name}\r\nThird about {name}\n",
+      });
+
+      expect(pack?.prompts.map(p => p.text)).toEqual(["First about {name}", "Second about {name}", "Third about {name}"]);
+      expect(pack?.packOnly).toBe(false);
+    });
+
+    it("drops invalid and duplicate prompts", () => {
+      const pack = parsePromptPack({
+        prompts: ["One {name}", "one {name}", 42, "x".repeat(201), "Two {name}", "Three {name}"],
+      });
+
+      expect(pack?.prompts.map(p => p.text)).toEqual(["One {name}", "Two {name}", "Three {name}"]);
+      expect(pack?.name).toBe("Custom pack");
+    });
+
+    it("rejects packs with too few valid prompts", () => {
+      expect(parsePromptPack({ prompts: ["Only {name}", "   "] })).toBeNull();
+      expect(parsePromptPack({ name: "No prompts" })).toBeNull();
+      expect(parsePromptPack("not an object")).toBeNull();
+    });
+  });
+
+  describe("selectFallbackPrompt", () => {
+    it("draws from the given pack", () => {
+      const prompt = selectFallbackPrompt(["Ben"], [], ["Only prompt about {name}"]);
+      expect(prompt).toBe("Only prompt about Ben");
+    });
+
+    it("fills in non-Latin names", () => {
+      const prompt = selectFallbackPrompt(["Саша"], [], ["Only prompt about {name}"]);
+      expect(prompt).toBe("Only prompt about Саша");
+    });
+
+    it("treats prompts that differ only by a non-Latin name as repeats", () => {
+      const history = [{ prompt: "A about Саша", topAnswers: [] }];
+      const prompt = selectFallbackPrompt(["Саша", "José"], history, ["A about {name}", "B about {name}"], ["José"]);
+      expect(prompt).toBe("B about José");
+    });
+  });
+
+  describe("Host pack selection", () => {
+    let server: TestServer;
+    let host: MockPlayer;
+    let player2: MockPlayer;
+
+    beforeEach(() => {
+      vi.restoreAllMocks();
+      server = createTestServer("pack-test", {});
+      host = createMockPlayer(server, "Host");
+      player2 = createMockPlayer(server, "Player2");
+    });
+
+    it("defaults to the classic pack", () => {
+      const pack = host.getLastState()?.promptPack as { id: string; packOnly: boolean };
+      expect(pack.id).toBe("classic");
+      expect(pack.packOnly).toBe(false);
+    });
+
+    it("switches to a built-in pack and uses it for fallback prompts", async () => {
+      server.sendMessage(host.conn, { type: "set-prompt-pack", packId: "sfw" });
+      server.sendMessage(host.conn, { type: "start", theme: "test", roundLimit: 3 });
+      await server.waitForGeneration();
+
+      const state = server.getState() as GameState;
+      expect(state.promptSource).toBe("fallback");
+      const templates = SFW_PROMPTS.map(p => p.text.replace("{name}", ""));
+      expect(templates.some(t => state.currentPrompt.replace(/Host|Player2/, "") === t)).toBe(true);
+    });
+
+    it("broadcasts pack metadata but not the prompts", () => {
+      server.sendMessage(host.conn, {
+        type: "set-prompt-pack",
+        pack: { name: "Secret deck", prompts: ["A {name}", "B {name}", "C {name}"] },
+      });
+
+      expect(player2.getLastState()?.promptPack).toEqual({
+        id: "custom",
+        name: "Secret deck",
+        promptCount: 3,
+        packOnly: false,
+      });
+    });
+
+    it("tells the host when an upload is rejected", () => {
+      server.sendMessage(host.conn, { type: "set-prompt-pack", pack: { prompts: ["Just one"] } });
+
+      const rejected = host.conn.getAllMessages().find(
+        (m) => (m as { type: string }).type === "prompt-pack-rejected"
+      );
+      expect(rejected).toBeDefined();
+      expect((server.getState() as GameState).promptPack.id).toBe("classic");
+    });
+
+    it("ignores pack changes from non-hosts and after the game starts", async () => {
+      server.sendMessage(player2.conn, { type: "set-prompt-pack", packId: "sfw" });
+      expect((server.getState() as GameState).promptPack.id).toBe("classic");
+
+      server.sendMessage(host.conn, { type: "start", theme: "test", roundLimit: 3 });
+      await server.waitForGeneration();
+      server.sendMessage(host.conn, { type: "set-prompt-pack", packId: "sfw" });
+
+      const state = server.getState() as GameState;
+      expect(state.phase).toBe(PHASES.WRITING);
+      expect(state.promptPack.id).toBe("classic");
+    });
+
+    it("serves pack prompts that don't name anyone", async () => {
+      const log = vi.spyOn(console, "log");
+      const prompts = ["Worst pizza topping?", "Best excuse for being late?", "Strangest pet name?"];
+      server.sendMessage(host.conn, { type: "set-prompt-pack", pack: { name: "Nameless", prompts, packOnly: true } });
+      server.sendMessage(host.conn, { type: "start", theme: "test", roundLimit: 3 });
+      await server.waitForGeneration();
+
+      const state = server.getState() as GameState;
+      expect(prompts).toContain(state.currentPrompt);
+      expect(log.mock.calls.some(args => String(args[0]).includes("departed player"))).toBe(false);
+    });
+
+    it("skips the LLM entirely for pack-only packs", async () => {
+      const fetchSpy = vi.spyOn(global, "fetch");
+      server = createTestServer("pack-only-test", { XAI_API_KEY: "test-key" });
+      host = createMockPlayer(server, "Host");
+      player2 = createMockPlayer(server, "Player2");
+
+      server.sendMessage(host.conn, {
+        type: "set-prompt-pack",
+        pack: { name: "Offline", prompts: ["A {name}", "B {name}", "C {name}"], packOnly: true },
+      });
+      server.sendMessage(host.conn, { type: "start", theme: "test", roundLimit: 3 });
+      await server.waitForGeneration();
+
+      const state = server.getState() as GameState;
+      expect(fetchSpy).not.toHaveBeenCalled();
+      expect(state.promptSource).toBe("fallback");
+      expect(state.currentPrompt).toMatch(/^[ABC] (Host|Player2)$/);
+    });
+  });
+});
@@ -0,0 +1,203 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { createTestServer, TestServer } from "../utils/party-test-server";
+import { createMockPlayer, MockPlayer } from "../utils/mock-player";
+import { PHASES, type GameState, type QueuedPrompt } from "../../party/main";
+
+describe("Prompt Queue", () => {
+  const ADMIN_KEY = "queue-admin-key";
+  let server: TestServer;
+  let host: MockPlayer;
+  let player2: MockPlayer;
+  let fetchSpy: ReturnType<typeof vi.spyOn>;
+
+  // Every request returns a numbered batch so each prompt is distinguishable
+  // Each prompt names both players, so it hits whichever target it was asked for
+  function mockBatches() {
+    let batch = 0;
+    fetchSpy = vi.spyOn(global, "fetch").mockImplementation(async () => {
+      batch++;
+      const lines = [1, 2, 3, 4, 5].map(i => `${i}. Batch ${batch} question ${i} about Host and Player2`);
+      return new Response(JSON.stringify({
+        choices: [{ message: { content: lines.join("\n") } }],
+      }));
+    });
+  }
+
+  beforeEach(() => {
+    vi.restoreAllMocks();
+    mockBatches();
+    server = createTestServer("queue-test", { XAI_API_KEY: "test-key", ADMIN_SECRET_KEY: ADMIN_KEY });
+    host = createMockPlayer(server, "Host", undefined, ADMIN_KEY);
+    player2 = createMockPlayer(server, "Player2");
+  });
+
+  async function startGame(roundLimit: number | null = 10) {
+    server.sendMessage(host.conn, { type: "start", theme: "test", roundLimit });
+    await server.waitForGeneration();
+  }
+
+  async function playRound() {
+    host.answer("host answer");
+    player2.answer("player2 answer");
+    const state = server.getState() as GameState;
+    host.vote(state.answerOrder.indexOf(player2.id));
+    player2.vote(state.answerOrder.indexOf(host.id));
+    await server.waitForGeneration();
+    server.sendMessage(host.conn, { type: "next-round" });
+  }
+
+  function queue(): QueuedPrompt[] {
+    return (server.getState() as GameState).promptQueue;
+  }
+
+  describe("Batch generation", () => {
+    it("fills the queue from a single request at game start", async () => {
+      await startGame();
+
+      const state = server.getState() as GameState;
+      expect(fetchSpy).toHaveBeenCalledTimes(1);
+      expect(state.currentPrompt).toBe("Batch 1 question 1 about Host and Player2");
+      expect(queue().map(q => q.prompt)).toEqual([
+        "Batch 1 question 2 about Host and Player2",
+        "Batch 1 question 3 about Host and Player2",
+        "Batch 1 question 4 about Host and Player2",
+        "Batch 1 question 5 about Host and Player2",
+      ]);
+      expect(queue().every(q => q.source === "ai")).toBe(true);
+    });
+
+    it("asks for no more prompts than the game has rounds", async () => {
+      await startGame(3);
+
+      const body = JSON.parse(fetchSpy.mock.calls[0][1]!.body as string);
+      const userMessage = body.messages.find((m: { role: string }) => m.role === "user");
+      expect(userMessage.content).toContain("Generate 3 unique prompts");
+    });
+
+    it("serves later rounds from the queue without new requests", async () => {
+      await startGame();
+      await playRound();
+      await playRound();
+
+      const state = server.getState() as GameState;
+      expect(state.round).toBe(3);
+      expect(state.currentPrompt).toBe("Batch 1 question 3 about Host and Player2");
+      expect(fetchSpy).toHaveBeenCalledTimes(1);
+    });
+
+    it("refills in the background when the queue runs low", async () => {
+      await startGame();
+      await playRound();
+      await playRound();
+      await playRound();
+      // Queue is down to one prompt; writing ends and voting triggers a refill
+      host.answer("host answer");
+      player2.answer("player2 answer");
+      await server.waitForGeneration();
+
+      expect(fetchSpy).toHaveBeenCalledTimes(2);
+      expect(queue().map(q => q.prompt)[1]).toBe("Batch 2 question 1 about Host and Player2");
+    });
+
+    it("drops invalid lines but keeps the rest of the batch", async () => {
+      vi.restoreAllMocks();
+      fetchSpy = vi.spyOn(global, "fetch").mockResolvedValue(new Response(JSON.stringify({
+        choices: [{ message: { content: "Host's worst habit\nNo name here\nHost's worst habit\nWhy Player2 is late" } }],
+      })));
+
+      await startGame();
+
+      expect((server.getState() as GameState).currentPrompt).toBe("Host's worst habit");
+      expect(queue().map(q => q.prompt)).toEqual(["Why Player2 is late"]);
+    });
+
+    it("queues a single fallback when the LLM fails", async () => {
+      vi.restoreAllMocks();
+      vi.spyOn(global, "fetch").mockRejectedValue(new Error("Network error"));
+
+      await startGame();
+
+      const state = server.getState() as GameState;
+      expect(state.phase).toBe(PHASES.WRITING);
+      expect(state.promptSource).toBe("fallback");
+      expect(queue()).toHaveLength(0);
+    });
+
+    it("skips queued prompts about players who have left", async () => {
+      const player3 = createMockPlayer(server, "Player3");
+      await startGame();
+      server.server.state.promptQueue = [
+        { id: "a", prompt: "Player3's secret shame", source: "ai" },
+        { id: "b", prompt: "Player2's secret shame", source: "ai" },
+      ];
+      host.kick(player3.id);
+
+      host.answer("host answer");
+      player2.answer("player2 answer");
+      const state = server.getState() as GameState;
+      host.vote(state.answerOrder.indexOf(player2.id));
+      player2.vote(state.answerOrder.indexOf(host.id));
+      await server.waitForGeneration();
+      server.sendMessage(host.conn, { type: "next-round" });
+
+      expect((server.getState() as GameState).currentPrompt).toBe("Player2's secret shame");
+    });
+
+    it("persists the queue across a server restart", async () => {
+      await startGame();
+      const before = queue().map(q => q.id);
+
+      await server.restart();
+
+      expect(queue().map(q => q.id)).toEqual(before);
+    });
+  });
+
+  describe("Admin controls", () => {
+    it("includes the queue in admin state", async () => {
+      await startGame();
+
+      const adminState = host.getLastAdminState();
+      expect(adminState?.promptQueue).toEqual(queue());
+      expect(player2.getLastAdminState()).toBeNull();
+    });
+
+    it("reorders the queue, keeping unlisted prompts at the back", async () => {
+      await startGame();
+      const ids = queue().map(q => q.id);
+
+      host.reorderPrompts([ids[2], ids[0]]);
+
+      expect(queue().map(q => q.id)).toEqual([ids[2], ids[0], ids[1], ids[3]]);
+      expect((host.getLastAdminState()?.promptQueue as QueuedPrompt[])[0].id).toBe(ids[2]);
+    });
+
+    it("discards a prompt", async () => {
+      await startGame();
+      const [first, ...rest] = queue();
+
+      host.discardPrompt(first.id);
+
+      expect(queue().map(q => q.id)).toEqual(rest.map(q => q.id));
+    });
+
+    it("ignores queue edits from non-admins", async () => {
+      await startGame();
+      const ids = queue().map(q => q.id);
+
+      player2.discardPrompt(ids[0]);
+      player2.reorderPrompts([...ids].reverse());
+
+      expect(queue().map(q => q.id)).toEqual(ids);
+    });
+
+    it("drops queued AI prompts when guidance changes", async () => {
+      await startGame();
+      expect(queue().length).toBeGreaterThan(0);
+
+      host.setPromptGuidance("Make it about cooking");
+
+      expect(queue()).toHaveLength(0);
+    });
+  });
+});
@@ -0,0 +1,96 @@
+import { describe, it, expect } from "vitest";
+import type * as Party from "partykit/server";
+import { GameSimulator } from "../utils/game-simulator";
+import { PHASES } from "../../party/main";
+import type { GameRecap } from "../../party/protocol";
+
+describe("Game Recaps", () => {
+  function requestRecap(simulator: GameSimulator, recapId: string) {
+    const req = new Request(`http://localhost/parties/main/${simulator.server.room.id}?recap=${encodeURIComponent(recapId)}`);
+    return simulator.server.server.onRequest(req as unknown as Party.Request);
+  }
+
+  async function finishGame() {
+    const simulator = new GameSimulator({ playerCount: 3, rounds: 3, theme: "space" });
+    const result = await simulator.runFullGame();
+    const recap = simulator.host.getLastState()!.recap!;
+    return { simulator, result, recap };
+  }
+
+  it("saves a recap when the game reaches FINAL", async () => {
+    const { simulator, result, recap } = await finishGame();
+
+    expect(simulator.host.getLastState()?.phase).toBe(PHASES.FINAL);
+    expect(recap.id.startsWith(`${simulator.server.room.id}-`)).toBe(true);
+    expect(recap.theme).toBe("space");
+    expect(recap.rounds).toHaveLength(3);
+    expect(recap.standings[0]).toEqual({ name: result.winnerName, score: result.winnerScore });
+    expect(await simulator.server.room.storage.get(`recap:${recap.id}`)).toEqual(recap);
+  });
+
+  it("serves the recap over HTTP after the room restarts a new game", async () => {
+    const { simulator, recap } = await finishGame();
+    simulator.server.sendMessage(simulator.host.conn, { type: "restart" });
+    expect(simulator.host.getLastState()?.recap).toBeNull();
+
+    const res = await requestRecap(simulator, recap.id);
+
+    expect(res.status).toBe(200);
+    expect(await res.json()).toEqual(recap);
+  });
+
+  it("survives the room being evicted", async () => {
+    const { simulator, recap } = await finishGame();
+    await simulator.server.restart();
+
+    const res = await requestRecap(simulator, recap.id);
+    expect(await res.json()).toEqual(recap);
+    // The FINAL screen gets it back too, from its own key rather than the state snapshot
+    expect(simulator.getState().recap).toEqual(recap);
+  });
+
+  it("404s for unknown ids and ids from other rooms", async () => {
+    const { simulator, recap } = await finishGame();
+    const suffix = recap.id.slice(-12);
+
+    expect((await requestRecap(simulator, `${simulator.server.room.id}-000000000000`)).status).toBe(404);
+    expect((await requestRecap(simulator, `OTHER1-${suffix}`)).status).toBe(404);
+    expect((await requestRecap(simulator, "state")).status).toBe(404);
+  });
+
+  it("lets the host hide authors in the saved recap", async () => {
+    const { simulator, recap } = await finishGame();
+
+    simulator.server.sendMessage(simulator.host.conn, { type: "set-recap-options", hideAuthors: true });
+
+    const hidden = simulator.host.getLastState()!.recap!;
+    expect(hidden).toMatchObject({ id: recap.id, finishedAt: recap.finishedAt, hideAuthors: true });
+    expect(hidden.rounds.flatMap(r => r.answers).every(a => a.author === undefined && a.voters === undefined)).toBe(true);
+    const stored = await (await requestRecap(simulator, recap.id)).json() as GameRecap;
+    expect(stored.hideAuthors).toBe(true);
+  });
+
+  it("ignores recap options from other players", async () => {
+    const { simulator } = await finishGame();
+
+    simulator.server.sendMessage(simulator.players[1].conn, { type: "set-recap-options", hideAuthors: true });
+
+    expect(simulator.host.getLastState()!.recap!.hideAuthors).toBe(false);
+  });
+
+  it("keeps only the newest recaps per room", async () => {
+    const simulator = new GameSimulator({ playerCount: 3, rounds: 3 });
+    const ids: string[] = [];
+    for (let game = 0; game < 21; game++) {
+      await simulator.runFullGame();
+      ids.push(simulator.host.getLastState()!.recap!.id);
+      simulator.server.sendMessage(simulator.host.conn, { type: "restart" });
+    }
+    // Index updates are async
+    await new Promise(resolve => setTimeout(resolve, 0));
+
+    expect((await requestRecap(simulator, ids[0])).status).toBe(404);
+    expect((await requestRecap(simulator, ids[20])).status).toBe(200);
+    expect(await simulator.server.room.storage.get("recap-ids")).toEqual(ids.slice(1));
+  });
+});
@@ -54,7 +54,7 @@ describe("Player Reconnection", () => {
       player2.disconnect();
 
       // Player2 reconnects (same ID)
-      player2.reconnect();
+      await player2.reconnect();
 
       // Score should be preserved
       const afterReconnect = server.getState() as GameState;
@@ -113,7 +113,7 @@ describe("Player Reconnection", () => {
 
       // Disconnect and reconnect
       player2.disconnect();
-      player2.reconnect();
+      await player2.reconnect();
 
       const afterReconnect = server.getState() as GameState;
       expect(afterReconnect.players[player2.id].winStreak).toBe(5);
@@ -195,7 +195,7 @@ describe("Player Reconnection", () => {
       player2.disconnect();
 
       // Player2 reconnects before host ends writing
-      player2.reconnect();
+      await player2.reconnect();
 
       // Other players submit
       host.answer("Host answer");
@@ -234,7 +234,7 @@ describe("Player Reconnection", () => {
       expect(votingState.answerOrder).toContain(player2.id);
 
       // Player2 reconnects during voting
-      player2.reconnect();
+      await player2.reconnect();
 
       // Their answer is still there
       expect(votingState.answers[player2.id]).toBe("Player2 answer");
@@ -0,0 +1,138 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { createTestServer, TestServer } from "../utils/party-test-server";
+import { createMockPlayer, MockPlayer } from "../utils/mock-player";
+import { PHASES, type GameState } from "../../party/main";
+
+type RevealAnswer = { answerId: number; playerId?: string; answer: string; votes: number };
+type Standing = { id: string; score: number; winStreak: number };
+
+describe("Reveal Sequence", () => {
+  let server: TestServer;
+  let host: MockPlayer;
+  let player2: MockPlayer;
+  let player3: MockPlayer;
+
+  beforeEach(() => {
+    vi.restoreAllMocks();
+    server = createTestServer("reveal-test", {});
+    host = createMockPlayer(server, "Host");
+    player2 = createMockPlayer(server, "Player2");
+    player3 = createMockPlayer(server, "Player3");
+  });
+
+  // Round where Player2 gets two votes, Host one and Player3 none
+  async function playToReveal() {
+    server.sendMessage(host.conn, { type: "start", theme: "test", roundLimit: 3 });
+    await server.waitForGeneration();
+    host.answer("Host answer");
+    player2.answer("Player2 answer");
+    player3.answer("Player3 answer");
+
+    const order = (server.getState() as GameState).answerOrder;
+    host.vote(order.indexOf(player2.id));
+    player3.vote(order.indexOf(player2.id));
+    player2.vote(order.indexOf(host.id));
+  }
+
+  function lastAnswers(player: MockPlayer = host): RevealAnswer[] {
+    return player.getLastState()?.answers as RevealAnswer[];
+  }
+
+  function revealNext() {
+    server.sendMessage(host.conn, { type: "reveal-next" });
+  }
+
+  it("starts with nothing unveiled and pre-round scores", async () => {
+    await playToReveal();
+
+    const state = host.getLastState()!;
+    expect(state.phase).toBe(PHASES.REVEAL);
+    expect(state.revealStep).toBe(0);
+    expect(state.revealSteps).toBe(7); // 3 answers and 3 authors, then the winner
+    expect(state.answers).toEqual([]);
+    expect(state.votes).toEqual({});
+    expect((state.players as Standing[]).every(p => p.score === 0)).toBe(true);
+    // The real scores are already applied server-side
+    expect((server.getState() as GameState).players[player2.id].score).toBe(400);
+  });
+
+  it("unveils answers fewest votes first, each followed by its author", async () => {
+    await playToReveal();
+
+    revealNext();
+    expect(lastAnswers()).toEqual([
+      { answerId: expect.any(Number), answer: "Player3 answer", votes: 0 },
+    ]);
+
+    revealNext();
+    expect(lastAnswers()[0].playerId).toBe(player3.id);
+
+    revealNext();
+    revealNext();
+    revealNext();
+    expect(lastAnswers().map(a => a.answer)).toEqual(["Player3 answer", "Host answer", "Player2 answer"]);
+    expect(lastAnswers()[2].playerId).toBeUndefined();
+  });
+
+  it("shows the winner, votes and new scores at the last step", async () => {
+    await playToReveal();
+    for (let i = 0; i < 7; i++) revealNext();
+
+    const state = host.getLastState()!;
+    expect(state.revealStep).toBe(7);
+    expect(lastAnswers()[2]).toMatchObject({ playerId: player2.id, votes: 2 });
+    expect(Object.keys(state.votes as object)).toHaveLength(3);
+    const winner = (state.players as Standing[]).find(p => p.id === player2.id)!;
+    expect(winner).toMatchObject({ score: 400, winStreak: 1 });
+    expect((server.getState() as GameState).phaseDeadline).toBeNull();
+
+    revealNext();
+    expect(server.server.state.revealStep).toBe(7);
+  });
+
+  it("advances on the alarm", async () => {
+    await playToReveal();
+    const endsAt = (server.getState() as GameState).phaseDeadline!.endsAt;
+
+    vi.spyOn(Date, "now").mockReturnValue(endsAt + 1);
+    await server.server.onAlarm();
+    vi.mocked(Date.now).mockRestore();
+
+    expect(host.getLastState()?.revealStep).toBe(1);
+    expect((server.getState() as GameState).phaseDeadline?.phase).toBe(PHASES.REVEAL);
+  });
+
+  it("only lets the host skip ahead", async () => {
+    await playToReveal();
+    server.sendMessage(player2.conn, { type: "reveal-next" });
+
+    expect(server.server.state.revealStep).toBe(0);
+  });
+
+  it("puts a reconnecting player on the current step", async () => {
+    await playToReveal();
+    revealNext();
+    revealNext();
+    revealNext();
+    player3.disconnect();
+
+    await player3.reconnect();
+
+    const state = player3.getLastState()!;
+    expect(state.revealStep).toBe(3);
+    expect(lastAnswers(player3).map(a => a.answer)).toEqual(["Player3 answer", "Host answer"]);
+    expect(lastAnswers(player3)[1].playerId).toBeUndefined();
+  });
+
+  it("resets when the host moves on early", async () => {
+    await playToReveal();
+    revealNext();
+    server.sendMessage(host.conn, { type: "next-round" });
+
+    const state = server.getState() as GameState;
+    expect(state.phase).toBe(PHASES.WRITING);
+    expect(state.revealStep).toBe(0);
+    expect(state.revealStandings).toBeNull();
+    expect((host.getLastState()?.players as Standing[]).find(p => p.id === player2.id)?.score).toBe(400);
+  });
+});
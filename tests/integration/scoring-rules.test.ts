@@ -0,0 +1,129 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { createTestServer, TestServer } from "../utils/party-test-server";
+import { createMockPlayer, MockPlayer } from "../utils/mock-player";
+import { PHASES, type GameState } from "../../party/main";
+import { SCORING_PRESETS } from "../../party/scoring";
+import type { LobbySettings } from "../../party/protocol";
+
+describe("Scoring Rules", () => {
+  let server: TestServer;
+  let host: MockPlayer;
+  let player2: MockPlayer;
+  let player3: MockPlayer;
+
+  beforeEach(() => {
+    vi.restoreAllMocks();
+    server = createTestServer("scoring-test", {});
+    host = createMockPlayer(server, "Host");
+    player2 = createMockPlayer(server, "Player2");
+    player3 = createMockPlayer(server, "Player3");
+  });
+
+  function gameState() {
+    return server.getState() as GameState;
+  }
+
+  async function start(settings: LobbySettings = {}) {
+    server.sendMessage(host.conn, { type: "start", theme: "test", roundLimit: 3, ...settings });
+    await server.waitForGeneration();
+  }
+
+  // Player2 gets two votes and wins, Host gets one
+  function playRound() {
+    host.answer("Host answer");
+    player2.answer("Player2 answer");
+    player3.answer("Player3 answer");
+    const order = gameState().answerOrder;
+    host.vote(order.indexOf(player2.id));
+    player3.vote(order.indexOf(player2.id));
+    player2.vote(order.indexOf(host.id));
+  }
+
+  function finishReveal() {
+    while (gameState().revealStep < server.server.revealStepCount()) {
+      server.sendMessage(host.conn, { type: "reveal-next" });
+    }
+  }
+
+  it("defaults to the classic rules", async () => {
+    expect(host.getLastState()?.scoringRules).toEqual(SCORING_PRESETS.classic);
+    await start();
+    playRound();
+
+    expect(gameState().players[player2.id].score).toBe(400);
+    expect(gameState().players[host.id].score).toBe(100);
+  });
+
+  it("takes a preset or custom rules at start", async () => {
+    await start({ scoring: { pointsPerVote: 50, winnerBonus: 0 } });
+    playRound();
+
+    expect(gameState().scoringRules).toMatchObject({ pointsPerVote: 50, winnerBonus: 0 });
+    expect(gameState().players[player2.id].score).toBe(100);
+  });
+
+  it("changes rules from the lobby and broadcasts them", () => {
+    server.sendMessage(host.conn, { type: "update-settings", scoring: "streaks" });
+
+    expect(player3.getLastState()?.scoringRules).toEqual(SCORING_PRESETS.streaks);
+  });
+
+  it("ignores unknown presets and non-hosts", () => {
+    server.sendMessage(host.conn, { type: "update-settings", scoring: "made-up" });
+    server.sendMessage(player2.conn, { type: "update-settings", scoring: "comeback" });
+
+    expect(gameState().scoringRules).toEqual(SCORING_PRESETS.classic);
+  });
+
+  it("applies streak bonuses across rounds", async () => {
+    await start({ scoring: "streaks" });
+    playRound();
+    server.sendMessage(host.conn, { type: "next-round" });
+    await server.waitForGeneration();
+    playRound();
+
+    // Round 2: 2 votes + 200 win + 100 streak (one round already won)
+    expect(gameState().players[player2.id].score).toBe(400 + 500);
+  });
+
+  it("doubles the final round", async () => {
+    await start({ scoring: { doubleFinalRound: true } });
+    for (let round = 1; round <= 3; round++) {
+      if (round > 1) {
+        server.sendMessage(host.conn, { type: "next-round" });
+        await server.waitForGeneration();
+      }
+      playRound();
+    }
+
+    expect(gameState().players[player2.id].score).toBe(400 + 400 + 800);
+    expect(gameState().gameArchive[2].answers.find(a => a.playerId === player2.id)?.points).toBe(800);
+  });
+
+  it("broadcasts the points breakdown once the reveal finishes", async () => {
+    await start();
+    playRound();
+
+    expect(host.getLastState()?.phase).toBe(PHASES.REVEAL);
+    expect(host.getLastState()?.pointsBreakdown).toEqual([]);
+
+    finishReveal();
+
+    const breakdown = host.getLastState()!.pointsBreakdown;
+    expect(breakdown).toContainEqual({
+      playerId: player2.id,
+      votes: 2,
+      votePoints: 200,
+      winnerBonus: 200,
+      streakBonus: 0,
+      catchUpBonus: 0,
+      truthPoints: 0,
+      multiplier: 1,
+      total: 400,
+    });
+    expect(breakdown.find(b => b.playerId === host.id)?.total).toBe(100);
+
+    server.sendMessage(host.conn, { type: "next-round" });
+    expect(host.getLastState()?.pointsBreakdown).toEqual([]);
+  });
+});
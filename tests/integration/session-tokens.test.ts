@@ -0,0 +1,125 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { createTestServer, TestServer } from "../utils/party-test-server";
+import { createMockPlayer, MockPlayer } from "../utils/mock-player";
+import { type GameState } from "../../party/main";
+import { createSessionToken } from "../../party/session";
+
+const ADMIN_KEY = "test-admin-key";
+
+describe("Session Tokens", () => {
+  let server: TestServer;
+  let host: MockPlayer;
+  let player2: MockPlayer;
+
+  beforeEach(() => {
+    server = createTestServer("session-test", { ADMIN_SECRET_KEY: ADMIN_KEY });
+    host = createMockPlayer(server, "Host");
+    player2 = createMockPlayer(server, "Player2");
+  });
+
+  it("issues a token on join", async () => {
+    await server.settle();
+    expect(host.getSessionToken()).toMatch(/^[0-9a-f]{64}$/);
+    expect(player2.getSessionToken()).not.toBe(host.getSessionToken());
+  });
+
+  it("signs with SESSION_SECRET when configured", async () => {
+    server = createTestServer("session-test", { SESSION_SECRET: "configured" });
+    const player = createMockPlayer(server, "Player");
+    await server.settle();
+    expect(player.getSessionToken()).toBe(await createSessionToken("configured", "session-test", player.id));
+  });
+
+  it("lets a player reclaim their seat with the token", async () => {
+    await server.settle();
+    host.disconnect();
+    await host.reconnect();
+
+    expect((server.getState() as GameState).players[host.id].disconnectedAt).toBeUndefined();
+  });
+
+  it("rejects reconnects without a valid token", async () => {
+    host.disconnect();
+    expect((server.getState() as GameState).hostId).toBe(player2.id);
+
+    for (const token of [undefined, "0".repeat(64), "not hex"]) {
+      const conn = server.joinPlayer("Host", host.id, undefined, token);
+      await server.settle();
+
+      const error = conn.getAllMessages().find(m => (m as { type: string }).type === "error");
+      expect(error).toMatchObject({ code: "session-rejected" });
+      expect(conn.closed).toBe(true);
+      server.disconnect(host.id);
+    }
+
+    const state = server.getState() as GameState;
+    expect(state.players[host.id].disconnectedAt).toBeDefined();
+    expect(state.hostId).toBe(player2.id);
+  });
+
+  it("ignores actions from a connection on someone else's id that never joined", () => {
+    const impostor = server.connect(host.id);
+    server.sendMessage(impostor, { type: "update-settings", theme: "hijacked" });
+    server.sendMessage(impostor, { type: "chat", text: "it's me" });
+
+    expect((server.getState() as GameState).theme).toBe("");
+    expect(server.server.chatMessages).toHaveLength(0);
+  });
+
+  it("does not disconnect the real player when an impostor's socket closes", async () => {
+    const impostor = server.joinPlayer("Host", host.id);
+    await server.settle();
+    expect(impostor.closed).toBe(true);
+    server.server.onClose(impostor as never);
+
+    expect((server.getState() as GameState).players[host.id].disconnectedAt).toBeUndefined();
+  });
+
+  it("keeps admin state away from an impostor even with the admin key", async () => {
+    const admin = createMockPlayer(server, "Admin", undefined, ADMIN_KEY);
+    admin.disconnect();
+
+    const impostor = server.joinPlayer("Admin", admin.id, ADMIN_KEY);
+    await server.settle();
+
+    expect(impostor.getAllMessages().some(m => (m as { type: string }).type === "admin-state")).toBe(false);
+  });
+
+  it("accepts tokens issued before a restart", async () => {
+    await server.settle();
+    const token = player2.getSessionToken();
+    await server.restart();
+
+    await player2.reconnect();
+
+    expect(player2.getSessionToken()).toBe(token);
+    expect((server.getState() as GameState).players[player2.id].disconnectedAt).toBeUndefined();
+  });
+
+  it("drops a reconnect whose socket closes while the token is checked", async () => {
+    await server.settle();
+    const token = host.getSessionToken()!;
+    host.disconnect();
+
+    server.joinPlayer("Host", host.id, undefined, token);
+    server.disconnect(host.id);
+    await server.settle();
+
+    const state = server.getState() as GameState;
+    expect(state.players[host.id].disconnectedAt).toBeDefined();
+    expect(state.hostId).toBe(player2.id);
+  });
+
+  it("doesn't seat a player banned while their token is checked", async () => {
+    await server.settle();
+    const token = player2.getSessionToken()!;
+    player2.disconnect();
+
+    const conn = server.joinPlayer("Player2", player2.id, undefined, token);
+    host.ban(player2.id);
+    await server.settle();
+
+    expect((server.getState() as GameState).players[player2.id]).toBeUndefined();
+    expect(conn.closed).toBe(true);
+  });
+});
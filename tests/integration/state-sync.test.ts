@@ -0,0 +1,94 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { createTestServer, TestServer } from "../utils/party-test-server";
+import { createMockPlayer, createPlayers, MockPlayer } from "../utils/mock-player";
+import { PHASES } from "../../party/main";
+
+type Sent = { type: string; version?: number; changes?: Record<string, unknown> };
+
+describe("State Sync", () => {
+  let server: TestServer;
+  let host: MockPlayer;
+  let player2: MockPlayer;
+
+  beforeEach(() => {
+    server = createTestServer("sync-test", {});
+    host = createMockPlayer(server, "Host");
+    player2 = createMockPlayer(server, "Player2");
+  });
+
+  it("sends a full versioned state on join", () => {
+    const full = (player2.conn.getAllMessages() as Sent[]).find(m => m.type === "state");
+    expect(full?.version).toBe(server.server.stateVersion);
+  });
+
+  it("broadcasts only changed fields with increasing versions", () => {
+    host.conn.clearMessages();
+    const before = server.server.stateVersion;
+
+    server.sendMessage(host.conn, { type: "update-settings", theme: "pirates" });
+
+    const patches = (host.conn.getAllMessages() as Sent[]).filter(m => m.type === "state-patch");
+    expect(patches).toHaveLength(1);
+    expect(patches[0].version).toBe(before + 1);
+    expect(patches[0].changes).toEqual({ theme: "pirates" });
+    expect(host.getLastState()?.theme).toBe("pirates");
+  });
+
+  it("skips the broadcast when nothing visible changed", () => {
+    server.sendMessage(host.conn, { type: "update-settings", theme: "pirates" });
+    const version = server.server.stateVersion;
+    host.conn.clearMessages();
+
+    server.sendMessage(host.conn, { type: "update-settings", theme: "pirates" });
+
+    expect(server.server.stateVersion).toBe(version);
+    expect((host.conn.getAllMessages() as Sent[]).some(m => m.type === "state-patch")).toBe(false);
+  });
+
+  it("sends the same patch to every player during voting and marks own answers separately", async () => {
+    server.sendMessage(host.conn, { type: "start", theme: "test", roundLimit: 3 });
+    await server.waitForGeneration();
+    host.answer("Host answer");
+    host.conn.clearMessages();
+    player2.conn.clearMessages();
+
+    player2.answer("Player2 answer");
+
+    const patch = (m: MockPlayer) => m.conn.messages.find(raw => raw.includes('"state-patch"'));
+    expect(patch(host)).toBeDefined();
+    expect(patch(host)).toBe(patch(player2));
+    expect(patch(host)).not.toContain("isOwn");
+
+    const hostAnswers = host.getLastState()?.answers as { answer: string; isOwn: boolean }[];
+    expect(hostAnswers.find(a => a.isOwn)?.answer).toBe("Host answer");
+    const p2Answers = player2.getLastState()?.answers as { answer: string; isOwn: boolean }[];
+    expect(p2Answers.find(a => a.isOwn)?.answer).toBe("Player2 answer");
+  });
+
+  it("resends the full state and own answer on resync", async () => {
+    server.sendMessage(host.conn, { type: "start", theme: "test", roundLimit: 3 });
+    await server.waitForGeneration();
+    host.answer("Host answer");
+    player2.answer("Player2 answer");
+    expect(server.server.state.phase).toBe(PHASES.VOTING);
+    host.conn.clearMessages();
+
+    server.sendMessage(host.conn, { type: "resync" });
+
+    const types = (host.conn.getAllMessages() as Sent[]).map(m => m.type);
+    expect(types).toEqual(["state", "own-answer"]);
+    const full = host.conn.getAllMessages()[0] as Sent;
+    expect(full.version).toBe(server.server.stateVersion);
+  });
+
+  it("keeps every client consistent in a large room", () => {
+    const players = createPlayers(server, 20);
+    const newcomer = createMockPlayer(server, "Newcomer");
+    players[0].toggleVoyeur();
+
+    const expected = JSON.stringify(newcomer.getLastState());
+    for (const player of [host, player2, ...players]) {
+      expect(JSON.stringify(player.getLastState())).toBe(expected);
+    }
+  });
+});
@@ -0,0 +1,93 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { createTestServer, TestServer } from "../utils/party-test-server";
+import { createMockPlayer, MockPlayer } from "../utils/mock-player";
+import type { GameState } from "../../party/main";
+import type { AdminStateMessage } from "../../party/protocol";
+
+describe("Roast Target Rotation", () => {
+  const ADMIN_KEY = "target-admin-key";
+  let server: TestServer;
+  let host: MockPlayer;
+  let player2: MockPlayer;
+  let player3: MockPlayer;
+
+  function setup(env: Record<string, string> = {}) {
+    server = createTestServer("target-test", { ADMIN_SECRET_KEY: ADMIN_KEY, ...env });
+    host = createMockPlayer(server, "Host", undefined, ADMIN_KEY);
+    player2 = createMockPlayer(server, "Player2");
+    player3 = createMockPlayer(server, "Player3");
+  }
+
+  function gameState() {
+    return server.getState() as GameState;
+  }
+
+  function targetCounts() {
+    const adminState = host.getLastAdminState() as unknown as AdminStateMessage;
+    return Object.fromEntries(adminState.targetCounts.map(t => [t.name, t.count]));
+  }
+
+  async function playRound() {
+    host.answer("host answer");
+    player2.answer("player2 answer");
+    player3.answer("player3 answer");
+    const order = gameState().answerOrder;
+    host.vote(order.indexOf(player2.id));
+    player2.vote(order.indexOf(player3.id));
+    player3.vote(order.indexOf(host.id));
+    await server.waitForGeneration();
+    server.sendMessage(host.conn, { type: "next-round" });
+    await server.waitForGeneration();
+  }
+
+  beforeEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("rotates fallback prompts evenly through the players", async () => {
+    setup();
+    server.sendMessage(host.conn, {
+      type: "set-prompt-pack",
+      pack: { name: "Deck", prompts: ["A {name}", "B {name}", "C {name}", "D {name}", "E {name}", "F {name}", "G {name}", "H {name}"] },
+    });
+    server.sendMessage(host.conn, { type: "start", theme: "test", roundLimit: 6 });
+    await server.waitForGeneration();
+    for (let round = 1; round < 6; round++) {
+      await playRound();
+    }
+
+    expect(targetCounts()).toEqual({ Host: 2, Player2: 2, Player3: 2 });
+  });
+
+  it("asks the LLM for the least-targeted players and drops prompts that miss them", async () => {
+    const fetchSpy = vi.spyOn(global, "fetch").mockResolvedValue(new Response(JSON.stringify({
+      choices: [{ message: { content: "Host's first secret\nHost's second secret\nPlayer2's secret\nPlayer3's secret" } }],
+    })));
+    setup({ XAI_API_KEY: "test-key" });
+    server.sendMessage(host.conn, { type: "start", theme: "test", roundLimit: 3 });
+    await server.waitForGeneration();
+
+    const body = JSON.parse(fetchSpy.mock.calls[0][1]!.body as string);
+    const userMessage = body.messages.find((m: { role: string }) => m.role === "user").content as string;
+    const targets = userMessage.match(/in this order: (.*)<\/targets>/)![1].split(", ");
+    expect(targets.sort()).toEqual(["Host", "Player2", "Player3"]);
+
+    const prompts = [gameState().currentPrompt, ...gameState().promptQueue.map(q => q.prompt)];
+    expect(prompts).toHaveLength(3);
+    expect(prompts).not.toContain("Host's second secret");
+  });
+
+  it("shows target counts to admins only and clears them on restart", async () => {
+    setup();
+    server.sendMessage(host.conn, { type: "start", theme: "test", roundLimit: 1 });
+    await server.waitForGeneration();
+
+    const counts = targetCounts();
+    expect(Object.keys(counts).sort()).toEqual(["Host", "Player2", "Player3"]);
+    expect(player2.getLastAdminState()).toBeNull();
+
+    await playRound();
+    server.sendMessage(host.conn, { type: "restart" });
+    expect(gameState().targetCounts).toEqual({});
+  });
+});
@@ -0,0 +1,136 @@
+import { describe, it, expect } from "vitest";
+import { computeAwards } from "../../party/awards";
+import type { ArchivedAnswer, ArchivedRound, Award } from "../../party/protocol";
+
+const players = [
+  { id: "a", name: "Alice", score: 0 },
+  { id: "b", name: "Bob", score: 0 },
+  { id: "c", name: "Cara", score: 0 },
+  { id: "d", name: "Dan", score: 0 },
+];
+const nameOf = (id: string) => players.find(p => p.id === id)!.name;
+
+// votes maps voter id -> author id; points follow endVoting (100 per vote, +200 for the top answer)
+function round(number: number, prompt: string, votes: Record<string, string>, authors = ["a", "b", "c", "d"]): ArchivedRound {
+  const voteCounts = (id: string) => Object.values(votes).filter(v => v === id).length;
+  const maxVotes = Math.max(0, ...authors.map(voteCounts));
+  const answers: ArchivedAnswer[] = authors.map(id => ({
+    playerId: id,
+    name: nameOf(id),
+    answer: `${nameOf(id)}'s answer ${number}`,
+    votes: voteCounts(id),
+    points: voteCounts(id) * 100 + (voteCounts(id) === maxVotes && maxVotes > 0 ? 200 : 0),
+    voters: Object.entries(votes).filter(([, v]) => v === id).map(([voter]) => ({ playerId: voter, name: nameOf(voter) })),
+  }));
+  return { round: number, prompt, promptSource: "ai", answers };
+}
+
+// Final scores as the server would have them after these rounds
+function scored(archive: ArchivedRound[]) {
+  return players.map(p => ({
+    ...p,
+    score: archive.flatMap(r => r.answers).filter(a => a.playerId === p.id).reduce((sum, a) => sum + a.points, 0),
+  }));
+}
+
+function award(awards: Award[], id: Award["id"]) {
+  return awards.find(a => a.id === id);
+}
+
+describe("computeAwards", () => {
+  const archive = [
+    round(1, "What would Alice bring to a duel?", { a: "b", c: "b", d: "b" }),
+    round(2, "Alice's worst habit, according to Bob?", { a: "b", b: "c", c: "b", d: "a" }),
+    round(3, "Why is Dan always late?", { a: "c", b: "c", c: "d", d: "c" }),
+  ];
+  const awards = computeAwards(archive, scored(archive));
+
+  it("names the player mentioned in the most prompts, possessives included", () => {
+    expect(award(awards, "most-roasted")).toMatchObject({
+      winners: [{ playerId: "a", name: "Alice" }],
+      detail: "Named in 2 prompts",
+    });
+  });
+
+  it("finds the longest run of round wins", () => {
+    expect(award(awards, "best-streak")).toMatchObject({
+      winners: [{ playerId: "b", name: "Bob" }],
+      detail: "Won 2 rounds in a row",
+    });
+  });
+
+  it("credits whoever voted for the game winner most", () => {
+    // Bob wins the game; Alice and Cara both voted for him twice
+    expect(award(awards, "kingmaker")).toMatchObject({
+      winners: [{ playerId: "a", name: "Alice" }, { playerId: "c", name: "Cara" }],
+      detail: "Voted for Bob 2 times",
+    });
+  });
+
+  it("picks the round won with the largest share of possible votes", () => {
+    expect(award(awards, "most-unanimous")).toMatchObject({
+      winners: [{ playerId: "b", name: "Bob" }],
+      detail: '3 of 3 votes in round 1 for "Bob\'s answer 1"',
+    });
+  });
+
+  it("picks the round won by the widest margin", () => {
+    // Round 1: 3-0, round 3: 3-1
+    expect(award(awards, "biggest-shutout")).toMatchObject({
+      winners: [{ playerId: "b", name: "Bob" }],
+      detail: 'Won round 1 by 3 votes with "Bob\'s answer 1"',
+    });
+  });
+
+  it("skips awards nobody qualifies for", () => {
+    // Everyone ties on one vote each: no outright win, no streak, nobody named
+    const tied = [round(1, "Who let the dogs out?", { a: "b", b: "c", c: "d", d: "a" })];
+    const result = computeAwards(tied, scored(tied));
+
+    expect(result.map(a => a.id)).toEqual(["kingmaker"]);
+    expect(award(result, "kingmaker")?.winners).toHaveLength(4);
+  });
+
+  it("returns nothing for a game without votes", () => {
+    expect(computeAwards([round(1, "Anything?", {})], players)).toEqual([]);
+  });
+
+  it("leaves out watchers who never played", () => {
+    const withWatcher = [...scored(archive), { id: "w", name: "Why", score: 0, isVoyeur: true }];
+    const result = computeAwards([round(4, "Why is Why here?", {}, []), ...archive], withWatcher);
+
+    expect(award(result, "most-roasted")?.winners.map(w => w.playerId)).toEqual(["a"]);
+  });
+
+  it("counts a duel round once, however many matchups a player won in it", () => {
+    // Bob wins both his matchups in round 1 and one in round 2; Alice sits out round 2
+    const duel = [
+      { ...round(1, "Duel one", { c: "b", d: "b" }, ["a", "b"]), matchup: 1 },
+      { ...round(1, "Duel two", { a: "b", d: "b" }, ["b", "c"]), matchup: 2 },
+      { ...round(2, "Duel three", { a: "b", c: "b" }, ["b", "d"]), matchup: 1 },
+    ];
+
+    expect(award(computeAwards(duel.slice(0, 2), scored(duel.slice(0, 2))), "best-streak")).toBeUndefined();
+    expect(award(computeAwards(duel, scored(duel)), "best-streak")).toMatchObject({
+      winners: [{ playerId: "b", name: "Bob" }],
+      detail: "Won 2 rounds in a row",
+    });
+  });
+
+  it("doesn't break a streak for a round the player had no matchup in", () => {
+    const duel = [
+      { ...round(1, "Duel one", { b: "a", c: "a" }, ["a", "d"]), matchup: 1 },
+      { ...round(2, "Duel two", { a: "b", d: "b" }, ["b", "c"]), matchup: 1 },
+      { ...round(3, "Duel three", { b: "a", c: "a" }, ["a", "d"]), matchup: 1 },
+    ];
+
+    expect(award(computeAwards(duel, scored(duel)), "best-streak")?.winners.map(w => w.playerId)).toEqual(["a"]);
+  });
+
+  it("names the matchup a duel round was won in", () => {
+    const duel = [{ ...round(1, "Duel prompt", { a: "b", c: "b" }, ["b", "d"]), matchup: 2 }];
+    const result = computeAwards(duel, scored(duel));
+
+    expect(award(result, "biggest-shutout")?.detail).toBe('Won round 1 · matchup 2 by 2 votes with "Bob\'s answer 1"');
+  });
+});
@@ -0,0 +1,77 @@
+import { describe, it, expect } from "vitest";
+import {
+  BLUFF_FACTS,
+  BLUFF_POINTS,
+  isTheTruth,
+  pickFact,
+  scoreBluffRound,
+  type BluffFact,
+} from "../../party/bluff";
+import { parseGameMode } from "../../party/game-mode";
+import { explainPoints } from "../../party/scoring";
+
+const fact: BluffFact = { question: "A group of flamingos is called a _____.", answer: "Flamboyance" };
+
+describe("parseGameMode", () => {
+  it("accepts known modes only", () => {
+    expect(parseGameMode("bluff")).toBe("bluff");
+    expect(parseGameMode("roast")).toBe("roast");
+    expect(parseGameMode("duel")).toBe("duel");
+    expect(parseGameMode("trivia")).toBeNull();
+    expect(parseGameMode(undefined)).toBeNull();
+  });
+});
+
+describe("BLUFF_FACTS", () => {
+  it("has a blank in every question and no repeated questions", () => {
+    expect(BLUFF_FACTS.every(f => f.question.includes("_____") && f.answer.length > 0)).toBe(true);
+    expect(new Set(BLUFF_FACTS.map(f => f.question)).size).toBe(BLUFF_FACTS.length);
+  });
+});
+
+describe("pickFact", () => {
+  const facts: BluffFact[] = [fact, { question: "Octopuses have _____ hearts.", answer: "Three" }];
+
+  it("skips facts already asked this game", () => {
+    for (let i = 0; i < 10; i++) {
+      expect(pickFact(facts, [fact.question])).toBe(facts[1]);
+    }
+  });
+
+  it("starts over once every fact has been asked", () => {
+    expect(facts).toContain(pickFact(facts, facts.map(f => f.question)));
+  });
+});
+
+describe("isTheTruth", () => {
+  it("sees through case, punctuation, spacing and articles", () => {
+    expect(isTheTruth("flamboyance", fact)).toBe(true);
+    expect(isTheTruth("  A Flamboyance! ", fact)).toBe(true);
+    expect(isTheTruth("Ｆｌａｍｂｏｙａｎｃｅ", fact)).toBe(true);
+    expect(isTheTruth("Pink flamboyance", fact)).toBe(false);
+    expect(isTheTruth("A Pringles can", { question: "_____", answer: "A Pringles can" })).toBe(true);
+  });
+});
+
+describe("scoreBluffRound", () => {
+  const players = [{ id: "a" }, { id: "b" }, { id: "c" }];
+
+  it("pays for each player fooled and for finding the truth", () => {
+    const breakdown = scoreBluffRound({ voteCounts: { a: 2 }, truthFinderIds: ["a", "c"], players });
+
+    expect(breakdown.find(b => b.playerId === "a")).toMatchObject({
+      votes: 2,
+      votePoints: 2 * BLUFF_POINTS.perPlayerFooled,
+      truthPoints: BLUFF_POINTS.truth,
+      total: 2 * BLUFF_POINTS.perPlayerFooled + BLUFF_POINTS.truth,
+    });
+    expect(breakdown.find(b => b.playerId === "c")).toMatchObject({ votes: 0, total: BLUFF_POINTS.truth });
+    expect(breakdown.map(b => b.playerId)).not.toContain("b");
+  });
+
+  it("reads naturally in the points explanation", () => {
+    const [a, c] = scoreBluffRound({ voteCounts: { a: 1 }, truthFinderIds: ["a", "c"], players });
+    expect(explainPoints(a)).toBe("1 vote × 100 + 200 truth");
+    expect(explainPoints(c)).toBe("200 truth");
+  });
+});
@@ -0,0 +1,58 @@
+import { describe, it, expect } from "vitest";
+import { duelPromptsFor, hasAnsweredAll, planMatchups } from "../../party/duel";
+
+const prompts = ["P1", "P2", "P3", "P4"].map(prompt => ({ prompt, source: "fallback" as const }));
+
+describe("planMatchups", () => {
+  it("puts every player in two matchups and every prompt in front of two players", () => {
+    const matchups = planMatchups(["a", "b", "c", "d"], prompts);
+
+    expect(matchups.map(m => m.playerIds)).toEqual([["a", "b"], ["b", "c"], ["c", "d"], ["d", "a"]]);
+    expect(matchups.map(m => m.prompt)).toEqual(["P1", "P2", "P3", "P4"]);
+    for (const id of ["a", "b", "c", "d"]) {
+      expect(matchups.filter(m => m.playerIds.includes(id))).toHaveLength(2);
+    }
+  });
+
+  it("never pairs a player with themselves", () => {
+    for (let count = 3; count <= 8; count++) {
+      const ids = Array.from({ length: count }, (_, i) => `p${i}`);
+      const matchups = planMatchups(ids, Array.from({ length: count }, (_, i) => ({ prompt: `P${i}`, source: "ai" as const })));
+      expect(matchups.every(m => m.playerIds[0] !== m.playerIds[1])).toBe(true);
+    }
+  });
+
+  it("has nothing to pair for fewer than three players", () => {
+    expect(planMatchups(["a", "b"], prompts)).toEqual([]);
+    expect(planMatchups(["a"], prompts)).toEqual([]);
+    expect(planMatchups([], prompts)).toEqual([]);
+  });
+});
+
+describe("duelPromptsFor", () => {
+  it("lists only the player's own prompts, with what they've answered", () => {
+    const matchups = planMatchups(["a", "b", "c"], prompts);
+    matchups[0].answers.a = "Answer";
+
+    expect(duelPromptsFor(matchups, "a")).toEqual([
+      { matchupId: 0, prompt: "P1", answered: true },
+      { matchupId: 2, prompt: "P3", answered: false },
+    ]);
+    expect(duelPromptsFor(matchups, "z")).toEqual([]);
+  });
+});
+
+describe("hasAnsweredAll", () => {
+  it("is true only once every prompt is answered", () => {
+    const matchups = planMatchups(["a", "b", "c"], prompts);
+    matchups[0].answers.a = "One";
+    expect(hasAnsweredAll(matchups, "a")).toBe(false);
+
+    matchups[2].answers.a = "Two";
+    expect(hasAnsweredAll(matchups, "a")).toBe(true);
+  });
+
+  it("is false for a player with no prompts", () => {
+    expect(hasAnsweredAll(planMatchups(["a", "b", "c"], prompts), "z")).toBe(false);
+  });
+});
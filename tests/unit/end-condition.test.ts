@@ -0,0 +1,118 @@
+import { describe, it, expect } from "vitest";
+import {
+  describeRound,
+  gameEndsAt,
+  isFinalRound,
+  isGameOver,
+  maxRoundsLeft,
+  parseEndCondition,
+  parseRoundLimit,
+  type GameProgress,
+} from "../../party/end-condition";
+import { buildPromptSystemMessage } from "../../party/prompts";
+
+const START = 1_000_000;
+
+function progress(overrides: Partial<GameProgress> = {}): GameProgress {
+  return { round: 1, startedAt: START, now: START, topScore: 0, ...overrides };
+}
+
+describe("parseRoundLimit", () => {
+  it("accepts any whole number of rounds within bounds", () => {
+    expect(parseRoundLimit(1)).toBe(1);
+    expect(parseRoundLimit(7)).toBe(7);
+    expect(parseRoundLimit("50")).toBe(50);
+  });
+
+  it("treats anything else as endless", () => {
+    expect(parseRoundLimit(0)).toBeNull();
+    expect(parseRoundLimit(51)).toBeNull();
+    expect(parseRoundLimit(2.5)).toBeNull();
+    expect(parseRoundLimit("ten")).toBeNull();
+    expect(parseRoundLimit(null)).toBeNull();
+  });
+});
+
+describe("parseEndCondition", () => {
+  it("accepts each mode within its bounds", () => {
+    expect(parseEndCondition({ type: "rounds", rounds: 12 })).toEqual({ type: "rounds", rounds: 12 });
+    expect(parseEndCondition({ type: "timed", minutes: "20" })).toEqual({ type: "timed", minutes: 20 });
+    expect(parseEndCondition({ type: "score", target: 3000 })).toEqual({ type: "score", target: 3000 });
+    expect(parseEndCondition({ type: "endless", rounds: 3 })).toEqual({ type: "endless" });
+  });
+
+  it("rejects unknown modes and out-of-range values", () => {
+    expect(parseEndCondition({ type: "sudden-death" })).toBeNull();
+    expect(parseEndCondition({ type: "rounds" })).toBeNull();
+    expect(parseEndCondition({ type: "timed", minutes: 1 })).toBeNull();
+    expect(parseEndCondition({ type: "score", target: 1_000_000 })).toBeNull();
+    expect(parseEndCondition("rounds")).toBeNull();
+  });
+});
+
+describe("rounds mode", () => {
+  const condition = { type: "rounds", rounds: 4 } as const;
+
+  it("ends after the last round", () => {
+    expect(isFinalRound(condition, progress({ round: 3 }))).toBe(false);
+    expect(isFinalRound(condition, progress({ round: 4 }))).toBe(true);
+    expect(isGameOver(condition, progress({ round: 4 }))).toBe(true);
+  });
+
+  it("counts the rounds left", () => {
+    expect(maxRoundsLeft(condition, progress({ round: 0 }))).toBe(4);
+    expect(maxRoundsLeft(condition, progress({ round: 3 }))).toBe(1);
+    expect(maxRoundsLeft(condition, progress({ round: 4 }))).toBe(0);
+  });
+});
+
+describe("timed mode", () => {
+  const condition = { type: "timed", minutes: 10 } as const;
+  const endsAt = START + 10 * 60_000;
+
+  it("ends once the clock runs out", () => {
+    expect(gameEndsAt(condition, START)).toBe(endsAt);
+    expect(isGameOver(condition, progress({ round: 6, now: endsAt - 1 }))).toBe(false);
+    expect(isGameOver(condition, progress({ round: 6, now: endsAt }))).toBe(true);
+    expect(maxRoundsLeft(condition, progress({ now: endsAt - 1 }))).toBe(Infinity);
+  });
+
+  it("has no clock before round 1", () => {
+    expect(gameEndsAt(condition, null)).toBeNull();
+    expect(isFinalRound(condition, progress({ round: 0, startedAt: null }))).toBe(false);
+  });
+});
+
+describe("score mode", () => {
+  const condition = { type: "score", target: 1000 } as const;
+
+  it("ends once someone reaches the target", () => {
+    expect(isGameOver(condition, progress({ topScore: 999 }))).toBe(false);
+    expect(isGameOver(condition, progress({ topScore: 1000 }))).toBe(true);
+    expect(maxRoundsLeft(condition, progress({ topScore: 1200 }))).toBe(0);
+  });
+
+  it("never knows the final round in advance", () => {
+    expect(isFinalRound(condition, progress({ round: 20, topScore: 990 }))).toBe(false);
+  });
+});
+
+describe("endless mode", () => {
+  it("never ends", () => {
+    expect(isGameOver({ type: "endless" }, progress({ round: 100, topScore: 99_999 }))).toBe(false);
+    expect(maxRoundsLeft({ type: "endless" }, progress())).toBe(Infinity);
+  });
+});
+
+describe("describeRound", () => {
+  it("tells the LLM how the game is played", () => {
+    expect(describeRound(2, { type: "rounds", rounds: 7 })).toBe("This is round 2 of 7.");
+    expect(describeRound(2, { type: "timed", minutes: 30 })).toBe("This is round 2 of a 30-minute game.");
+    expect(describeRound(2, { type: "score", target: 2000 })).toBe("This is round 2. The first player to 2000 points wins.");
+    expect(describeRound(2, { type: "endless" })).toBe("This is round 2.");
+  });
+
+  it("ends the prompt system message", () => {
+    expect(buildPromptSystemMessage(4, { type: "rounds", rounds: 12 })).toMatch(/This is round 4 of 12\.$/);
+  });
+});
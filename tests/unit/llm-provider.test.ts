@@ -0,0 +1,130 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { createLLMProvider, createStubProvider } from "../../party/llm";
+import { buildPromptMessages, validateGeneratedPrompt } from "../../party/prompts";
+
+describe("createLLMProvider", () => {
+  beforeEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  function mockCompletion(content: string) {
+    return vi.spyOn(global, "fetch").mockResolvedValue(
+      new Response(JSON.stringify({ choices: [{ message: { content } }] }))
+    );
+  }
+
+  it("returns null when nothing is configured", () => {
+    expect(createLLMProvider({})).toBeNull();
+  });
+
+  it("defaults to xAI when XAI_API_KEY is set", async () => {
+    const fetchSpy = mockCompletion("hello");
+    const llm = createLLMProvider({ XAI_API_KEY: "xai-key" });
+
+    expect(llm?.name).toBe("xai:grok-4-fast-non-reasoning");
+    expect(await llm!.complete([{ role: "user", content: "hi" }])).toBe("hello");
+
+    const [url, init] = fetchSpy.mock.calls[0];
+    expect(url).toBe("https://api.x.ai/v1/chat/completions");
+    expect((init?.headers as Record<string, string>).Authorization).toBe("Bearer xai-key");
+  });
+
+  it("talks to any OpenAI-compatible endpoint without requiring a key", async () => {
+    const fetchSpy = mockCompletion("  local answer  ");
+    const llm = createLLMProvider({
+      LLM_PROVIDER: "openai",
+      LLM_BASE_URL: "http://localhost:11434/v1/",
+      LLM_MODEL: "llama3.1",
+    });
+
+    const content = await llm!.complete([{ role: "user", content: "hi" }], { temperature: 0.5, maxTokens: 20 });
+
+    expect(content).toBe("local answer");
+    const [url, init] = fetchSpy.mock.calls[0];
+    expect(url).toBe("http://localhost:11434/v1/chat/completions");
+    expect((init?.headers as Record<string, string>).Authorization).toBeUndefined();
+    const body = JSON.parse(init?.body as string);
+    expect(body).toMatchObject({ model: "llama3.1", temperature: 0.5, max_tokens: 20 });
+  });
+
+  it("rejects on API errors", async () => {
+    vi.spyOn(global, "fetch").mockResolvedValue(new Response("Rate limited", { status: 429 }));
+    const llm = createLLMProvider({ XAI_API_KEY: "xai-key" });
+
+    await expect(llm!.complete([{ role: "user", content: "hi" }])).rejects.toThrow("429");
+  });
+
+  it("returns null for an unknown provider", () => {
+    expect(createLLMProvider({ LLM_PROVIDER: "carrier-pigeon" })).toBeNull();
+  });
+});
+
+describe("Stub provider", () => {
+  const messages = buildPromptMessages({
+    theme: "office",
+    playerNames: ["Ben", "Sarah"],
+    roundNumber: 1,
+    endCondition: { type: "rounds", rounds: 3 },
+  });
+
+  it("returns the same valid prompt for the same input", async () => {
+    const stub = createStubProvider();
+    const first = await stub.complete(messages);
+
+    expect(await stub.complete(messages)).toBe(first);
+    expect(validateGeneratedPrompt(first, ["Ben", "Sarah"])).toBe(first);
+  });
+
+  it("writes one prompt about each requested target", async () => {
+    const targeted = buildPromptMessages({
+      theme: "office",
+      playerNames: ["Ben", "Sarah", "Tom"],
+      roundNumber: 1,
+      endCondition: { type: "endless" },
+      count: 2,
+      targets: ["Tom", "Sarah"],
+    });
+    const lines = (await createStubProvider().complete(targeted)).split("\n");
+
+    expect(lines).toHaveLength(2);
+    expect(lines[0]).toContain("Tom");
+    expect(lines[1]).toContain("Sarah");
+  });
+
+  it("answers non-prompt requests with NONE", async () => {
+    const stub = createStubProvider();
+    expect(await stub.complete([{ role: "user", content: "summarize this chat" }])).toBe("NONE");
+  });
+
+  it("doesn't touch the network", async () => {
+    const fetchSpy = vi.spyOn(global, "fetch");
+    await createLLMProvider({ LLM_PROVIDER: "stub" })!.complete(messages);
+    expect(fetchSpy).not.toHaveBeenCalled();
+  });
+});
+
+describe("validateGeneratedPrompt", () => {
+  it("strips surrounding quotes", () => {
+    expect(validateGeneratedPrompt("\"What's in Ben's fridge?\"", ["Ben"])).toBe("What's in Ben's fridge?");
+  });
+
+  it("rejects prompts that don't mention a player", () => {
+    expect(validateGeneratedPrompt("What's in the fridge?", ["Ben"])).toBeNull();
+  });
+
+  it("matches accented and non-Latin names", () => {
+    expect(validateGeneratedPrompt("What's in ZOË's fridge?", ["Zoë"])).toBe("What's in ZOË's fridge?");
+    expect(validateGeneratedPrompt("Почему Саша всегда опаздывает?", ["Саша"])).not.toBeNull();
+    // Decomposed "é" in the response still matches a precomposed name
+    expect(validateGeneratedPrompt("Why is Jose\u0301 like this?", ["José"])).toBe("Why is José like this?");
+  });
+
+  it("accepts fallback names when every player name sanitizes away", () => {
+    expect(validateGeneratedPrompt("Why is Jordan like this?", ["🔥🔥"])).toBe("Why is Jordan like this?");
+  });
+
+  it("rejects empty and overly long responses", () => {
+    expect(validateGeneratedPrompt("   ", ["Ben"])).toBeNull();
+    expect(validateGeneratedPrompt(`Ben ${"x".repeat(200)}`, ["Ben"])).toBeNull();
+  });
+});
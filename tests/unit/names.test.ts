@@ -0,0 +1,90 @@
+import { describe, it, expect } from "vitest";
+import { isReservedName, nameKey, normalizeName, uniqueName, validateName } from "../../party/names";
+
+describe("normalizeName", () => {
+  it("applies NFKC so styled and fullwidth letters become plain ones", () => {
+    expect(normalizeName("Ｂｅｎ")).toBe("Ben");
+    expect(normalizeName("𝐁𝐞𝐧")).toBe("Ben");
+    expect(normalizeName("Jose\u0301")).toBe("José");
+  });
+
+  it("removes invisible characters", () => {
+    expect(normalizeName("Ben\u200B")).toBe("Ben");
+    expect(normalizeName("\u202EneB")).toBe("neB");
+    expect(normalizeName("\uFEFFB\u2060en\u3164")).toBe("Ben");
+  });
+
+  it("collapses whitespace and caps the length", () => {
+    expect(normalizeName("  Ben \n\t Smith  ")).toBe("Ben Smith");
+    expect(normalizeName("A".repeat(25))).toHaveLength(20);
+    // Emoji count as one character each and are never split
+    expect(Array.from(normalizeName("🎉".repeat(25)))).toHaveLength(20);
+  });
+
+  it("keeps non-Latin names and limits stacked combining marks", () => {
+    expect(normalizeName("נועה")).toBe("נועה");
+    expect(normalizeName("Bex\u0301\u0302\u0303\u0304\u0305")).toBe("Bex\u0301\u0302");
+  });
+});
+
+describe("nameKey", () => {
+  it("folds case, accents, spacing and punctuation", () => {
+    expect(nameKey("ZOË")).toBe(nameKey("zoe"));
+    expect(nameKey("Ben.")).toBe(nameKey("ben"));
+    expect(nameKey("Mary Ann")).toBe(nameKey("MaryAnn"));
+  });
+
+  it("folds Cyrillic and Greek lookalikes", () => {
+    expect(nameKey("Веn")).toBe(nameKey("Ben")); // Cyrillic В
+    expect(nameKey("Ѕаm")).toBe(nameKey("Sam")); // Cyrillic Ѕ and а
+    expect(nameKey("ΚΙΜ")).toBe(nameKey("KIM")); // Greek capitals
+  });
+
+  it("folds Latin lookalikes", () => {
+    expect(nameKey("BiII")).toBe(nameKey("Bill"));
+    expect(nameKey("B0b")).toBe(nameKey("Bob"));
+    expect(nameKey("Sarn")).toBe(nameKey("Sam"));
+  });
+
+  it("keeps different names apart", () => {
+    expect(nameKey("Ben")).not.toBe(nameKey("Ken"));
+    expect(nameKey("Саша")).not.toBe(nameKey("Маша"));
+    expect(nameKey("🎉")).not.toBe(nameKey("🔥"));
+  });
+});
+
+describe("validateName", () => {
+  it("returns the normalized name", () => {
+    expect(validateName("  Zoë\u200B ")).toEqual({ ok: true, name: "Zoë" });
+  });
+
+  it("rejects missing and blank names", () => {
+    expect(validateName(undefined).ok).toBe(false);
+    expect(validateName("\u200B \u3164").ok).toBe(false);
+  });
+
+  it("rejects reserved names and their lookalikes unless allowed", () => {
+    expect(isReservedName("Admin")).toBe(true);
+    expect(isReservedName("ＡＤＭＩＮ")).toBe(true);
+    expect(isReservedName("Аdmіn")).toBe(true); // Cyrillic А and і
+    expect(validateName("System").ok).toBe(false);
+    expect(validateName("Admin", true)).toEqual({ ok: true, name: "Admin" });
+    expect(isReservedName("Adminton")).toBe(false);
+  });
+});
+
+describe("uniqueName", () => {
+  it("keeps a name nobody else's looks like", () => {
+    expect(uniqueName("Ben", ["Ken", "Bob"])).toBe("Ben");
+  });
+
+  it("adds the lowest free suffix to lookalikes", () => {
+    expect(uniqueName("Веn", ["Ben"])).toBe("Веn 2");
+    expect(uniqueName("ben", ["Ben", "Ben 2"])).toBe("ben 3");
+  });
+
+  it("keeps suffixed names within the length limit", () => {
+    const long = "A".repeat(20);
+    expect(uniqueName(long, [long])).toBe(`${"A".repeat(18)} 2`);
+  });
+});
@@ -0,0 +1,208 @@
+import { describe, it, expect } from "vitest";
+import {
+  applyStatePatch,
+  diffPublicState,
+  isAdminOverride,
+  markOwnAnswer,
+  parseClientMessage,
+  parseServerMessage,
+  PHASES,
+  syncState,
+  type PublicState,
+  type StateMessage,
+} from "../../party/protocol";
+import { defaultScoringRules } from "../../party/scoring";
+
+function makeState(overrides: Partial<PublicState> = {}): StateMessage {
+  return {
+    type: "state",
+    version: 1,
+    phase: PHASES.LOBBY,
+    mode: "roast",
+    matchup: null,
+    round: 0,
+    roundLimit: 5,
+    endCondition: { type: "rounds", rounds: 5 },
+    gameEndsAt: null,
+    players: [
+      { id: "a", name: "Ann", score: 0, winStreak: 0 },
+      { id: "b", name: "Ben", score: 0, winStreak: 0 },
+    ],
+    observerCount: 0,
+    hostId: "a",
+    currentPrompt: "",
+    promptSource: null,
+    theme: "",
+    isGenerating: false,
+    isPromptLoading: false,
+    submittedPlayerIds: [],
+    votedPlayerIds: [],
+    writingTimeLimit: null,
+    votingTimeLimit: null,
+    phaseEndsAt: null,
+    promptPack: { id: "classic", name: "Classic", promptCount: 10, packOnly: false },
+    contentRating: "adult",
+    moderation: { blockedCount: 0, aiCheck: false },
+    scoringRules: defaultScoringRules(),
+    answers: [],
+    votes: {},
+    pointsBreakdown: [],
+    revealStep: 0,
+    revealSteps: 0,
+    archive: null,
+    recap: null,
+    awards: null,
+    ...overrides,
+  };
+}
+
+// Strip the envelope so states can be diffed directly
+function publicPart(state: StateMessage): PublicState {
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  const { type, version, ...rest } = state;
+  return rest;
+}
+
+describe("parseClientMessage", () => {
+  it("accepts well-formed messages", () => {
+    const result = parseClientMessage(JSON.stringify({ type: "vote", votedFor: 2 }));
+    expect(result).toEqual({ ok: true, message: { type: "vote", votedFor: 2 } });
+  });
+
+  it("accepts messages whose fields are all optional", () => {
+    expect(parseClientMessage(JSON.stringify({ type: "join" })).ok).toBe(true);
+    expect(parseClientMessage(JSON.stringify({ type: "next-round" })).ok).toBe(true);
+  });
+
+  it("keeps lobby settings loose so the server can normalize them", () => {
+    const result = parseClientMessage(JSON.stringify({
+      type: "update-settings",
+      roundLimit: "5",
+      writingTimeLimit: null,
+      contentRating: "unknown",
+      blocklist: ["a", "b"],
+    }));
+    expect(result.ok).toBe(true);
+  });
+
+  it("names the first invalid field", () => {
+    expect(parseClientMessage(JSON.stringify({ type: "vote", votedFor: "0" }))).toEqual({
+      ok: false,
+      error: 'Invalid "votedFor" for vote',
+    });
+    expect(parseClientMessage(JSON.stringify({ type: "admin-reorder-prompts", promptIds: ["a", 1] }))).toEqual({
+      ok: false,
+      error: 'Invalid "promptIds" for admin-reorder-prompts',
+    });
+  });
+
+  it("rejects non-objects, unknown types and bad JSON", () => {
+    expect(parseClientMessage("[1,2]")).toEqual({ ok: false, error: "Message must be a JSON object" });
+    expect(parseClientMessage(JSON.stringify({ type: "toString" }))).toEqual({
+      ok: false,
+      error: "Unknown message type: toString",
+    });
+    expect(parseClientMessage("nope")).toEqual({ ok: false, error: "Message is not valid JSON" });
+  });
+});
+
+describe("parseServerMessage", () => {
+  it("checks nested shapes", () => {
+    const message = {
+      type: "chat_message",
+      message: { id: "1", playerId: "p", playerName: "Ben", text: "hi", timestamp: 1, type: "chat" },
+    };
+    expect(parseServerMessage(JSON.stringify(message)).ok).toBe(true);
+
+    message.message.type = "whisper";
+    expect(parseServerMessage(JSON.stringify(message))).toEqual({ ok: false, error: 'Invalid "message" for chat_message' });
+  });
+
+  it("only allows a moderation reason on error messages to be a known one", () => {
+    expect(parseServerMessage(JSON.stringify({ type: "error", code: "chat-rejected", reason: "slur", message: "x" })).ok).toBe(true);
+    expect(parseServerMessage(JSON.stringify({ type: "error", code: "chat-rejected", reason: "vibes", message: "x" })).ok).toBe(false);
+  });
+});
+
+describe("isAdminOverride", () => {
+  it("accepts strings and null, rejects anything else", () => {
+    expect(isAdminOverride({ exactQuestion: null, promptGuidance: "cooking" })).toBe(true);
+    expect(isAdminOverride({ exactQuestion: 42 })).toBe(false);
+    expect(isAdminOverride("nope")).toBe(false);
+  });
+});
+
+describe("state patches", () => {
+  it("returns null when nothing changed", () => {
+    expect(diffPublicState(publicPart(makeState()), publicPart(makeState()))).toBeNull();
+  });
+
+  it("only includes changed fields and changed players", () => {
+    const prev = makeState();
+    const next = makeState({
+      theme: "space",
+      players: [prev.players[0], { ...prev.players[1], score: 100 }],
+    });
+
+    expect(diffPublicState(publicPart(prev), publicPart(next))).toEqual({
+      changes: { theme: "space" },
+      players: { updated: [{ id: "b", name: "Ben", score: 100, winStreak: 0 }], removed: [] },
+    });
+  });
+
+  it("round-trips joins, leaves and updates through applyStatePatch", () => {
+    const prev = makeState();
+    const next = makeState({
+      phase: PHASES.WRITING,
+      players: [{ ...prev.players[1], isVoyeur: true }, { id: "c", name: "Cat", score: 0, winStreak: 0 }],
+    });
+    const diff = diffPublicState(publicPart(prev), publicPart(next))!;
+    const patch = { type: "state-patch" as const, version: 2, ...diff };
+
+    expect(parseServerMessage(JSON.stringify(patch)).ok).toBe(true);
+    expect(applyStatePatch(prev, patch)).toEqual({ ...next, version: 2 });
+  });
+
+  it("rejects patches with unknown or invalid fields", () => {
+    const patch = (changes: unknown) => JSON.stringify({ type: "state-patch", version: 2, changes });
+    expect(parseServerMessage(patch({ round: 3 })).ok).toBe(true);
+    expect(parseServerMessage(patch({ round: "3" })).ok).toBe(false);
+    expect(parseServerMessage(patch({ secret: 1 })).ok).toBe(false);
+    expect(parseServerMessage(patch({ players: [] })).ok).toBe(false);
+  });
+
+  it("marks the own answer only for the matching voting round", () => {
+    const answers = [{ answerId: 0, answer: "x", votes: 0 }, { answerId: 1, answer: "y", votes: 0 }];
+    const voting = makeState({ phase: PHASES.VOTING, round: 2, answers });
+
+    const marked = markOwnAnswer(voting, { type: "own-answer", round: 2, answerId: 1 });
+    expect(marked.answers.map(a => a.isOwn)).toEqual([false, true]);
+
+    const stale = markOwnAnswer(voting, { type: "own-answer", round: 1, answerId: 1 });
+    expect(stale.answers.some(a => a.isOwn)).toBe(false);
+  });
+});
+
+describe("syncState", () => {
+  const patch = (version: number, round: number) => ({ type: "state-patch" as const, version, changes: { round } });
+  const empty = { state: null, resyncPending: false };
+
+  it("applies patches that follow on and ignores old or early ones", () => {
+    expect(syncState(empty, patch(2, 1))).toEqual({ sync: empty, requestResync: false });
+
+    const { sync } = syncState(syncState(empty, makeState()).sync, patch(2, 1));
+    expect(sync.state).toMatchObject({ version: 2, round: 1 });
+    expect(syncState(sync, patch(2, 9)).sync).toBe(sync);
+  });
+
+  it("asks for one resync on a gap and waits for the full state", () => {
+    const start = syncState(empty, makeState()).sync;
+
+    const gap = syncState(start, patch(3, 2));
+    expect(gap).toEqual({ sync: { state: start.state, resyncPending: true }, requestResync: true });
+    expect(syncState(gap.sync, patch(4, 3))).toEqual({ sync: gap.sync, requestResync: false });
+
+    const full = makeState({ round: 3 });
+    expect(syncState(gap.sync, { ...full, version: 4 }).sync).toEqual({ state: { ...full, version: 4 }, resyncPending: false });
+  });
+});
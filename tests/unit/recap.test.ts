@@ -0,0 +1,147 @@
+import { describe, it, expect } from "vitest";
+import { buildRecap, createRecapId, parseRecapId, recapToMarkdown, recapWinners, roundLabel } from "../../party/recap";
+import type { ArchivedRound } from "../../party/protocol";
+
+const archive: ArchivedRound[] = [
+  {
+    round: 1,
+    prompt: "Worst superpower?",
+    promptSource: "fallback",
+    answers: [
+      { playerId: "a", name: "Alice", answer: "Sneezing *glitter*", votes: 0, points: 0, voters: [] },
+      { playerId: "b", name: "Bob", answer: "Talking to socks", votes: 2, points: 300, voters: [
+        { playerId: "a", name: "Alice" },
+        { playerId: "c", name: "Cara" },
+      ] },
+    ],
+  },
+];
+
+function recapSource(hideAuthors: boolean) {
+  return {
+    id: "ROOM01-0123456789ab",
+    roomId: "ROOM01",
+    theme: "heroes",
+    finishedAt: Date.UTC(2026, 0, 2),
+    hideAuthors,
+    archive,
+    players: [
+      { name: "Alice", score: 100 },
+      { name: "Bob", score: 300 },
+      { name: "Watcher", score: 0, isVoyeur: true },
+    ],
+  };
+}
+
+function recap(hideAuthors: boolean) {
+  return buildRecap(recapSource(hideAuthors));
+}
+
+describe("recap ids", () => {
+  it("carry the room they were saved in", () => {
+    const id = createRecapId("ROOM01");
+    expect(id).toMatch(/^ROOM01-[0-9a-f]{12}$/);
+    expect(parseRecapId(id)).toEqual({ roomId: "ROOM01" });
+    expect(createRecapId("ROOM01")).not.toBe(id);
+  });
+
+  it("rejects ids we wouldn't issue", () => {
+    expect(parseRecapId("ROOM01")).toBeNull();
+    expect(parseRecapId("ROOM01-xyz")).toBeNull();
+    expect(parseRecapId("../state-0123456789ab")).toBeNull();
+  });
+});
+
+describe("buildRecap", () => {
+  it("sorts answers and standings and leaves out player ids", () => {
+    const result = recap(false);
+
+    expect(result.rounds[0].answers).toEqual([
+      { answer: "Talking to socks", votes: 2, points: 300, author: "Bob", voters: ["Alice", "Cara"] },
+      { answer: "Sneezing *glitter*", votes: 0, points: 0, author: "Alice", voters: [] },
+    ]);
+    expect(result.standings).toEqual([{ name: "Bob", score: 300 }, { name: "Alice", score: 100 }]);
+    expect(JSON.stringify(result)).not.toContain("playerId");
+  });
+
+  it("drops authors and voters when hidden", () => {
+    const result = recap(true);
+
+    expect(result.hideAuthors).toBe(true);
+    expect(result.rounds[0].answers[0]).toEqual({ answer: "Talking to socks", votes: 2, points: 300 });
+  });
+});
+
+describe("buildRecap in bluff mode", () => {
+  const bluffArchive: ArchivedRound[] = [{
+    round: 1,
+    prompt: "A group of flamingos is called a _____.",
+    promptSource: "fact",
+    answers: [{ playerId: "a", name: "Alice", answer: "Pinkness", votes: 1, points: 100, voters: [{ playerId: "b", name: "Bob" }] }],
+    truth: { answer: "Flamboyance", voters: [{ playerId: "c", name: "Cara" }] },
+  }];
+
+  function bluffRecap(hideAuthors: boolean) {
+    return buildRecap({ id: "ROOM01-0123456789ab", roomId: "ROOM01", theme: "", finishedAt: 0, hideAuthors, archive: bluffArchive, players: [] });
+  }
+
+  it("keeps the truth apart from the lies", () => {
+    const round = bluffRecap(false).rounds[0];
+    expect(round.answers.map(a => a.answer)).toEqual(["Pinkness"]);
+    expect(round.truth).toEqual({ answer: "Flamboyance", votes: 1, voters: ["Cara"] });
+    expect(recapToMarkdown(bluffRecap(false))).toContain("- The truth: **Flamboyance** · 1 found it\n  - Found by Cara");
+  });
+
+  it("drops who found the truth when authors are hidden", () => {
+    expect(bluffRecap(true).rounds[0].truth).toEqual({ answer: "Flamboyance", votes: 1 });
+    expect(recapToMarkdown(bluffRecap(true))).not.toContain("Found by");
+  });
+});
+
+describe("recapWinners", () => {
+  it("returns the top answers, or none without votes", () => {
+    const round = recap(false).rounds[0];
+    expect(recapWinners(round).map(a => a.answer)).toEqual(["Talking to socks"]);
+    expect(recapWinners({ ...round, answers: round.answers.map(a => ({ ...a, votes: 0 })) })).toEqual([]);
+  });
+});
+
+describe("roundLabel", () => {
+  it("names the matchup for duel rounds", () => {
+    expect(roundLabel({ round: 2 })).toBe("Round 2");
+    expect(roundLabel({ round: 2, matchup: 3 })).toBe("Round 2 · Matchup 3");
+  });
+});
+
+describe("recapToMarkdown", () => {
+  it("lists standings and every answer", () => {
+    const markdown = recapToMarkdown(recap(false));
+
+    expect(markdown).toContain("# Shtus recap: heroes");
+    expect(markdown).toContain("Finished 2026-01-02 in room ROOM01");
+    expect(markdown).toContain("1. Bob - 300 pts");
+    expect(markdown).toContain("## Round 1: Worst superpower?");
+    expect(markdown).toContain("- **Talking to socks** - Bob · 2 votes (+300 pts) 🏆");
+    expect(markdown).toContain("  - Voted by Alice, Cara");
+  });
+
+  it("escapes players' formatting and respects hidden authors", () => {
+    const markdown = recapToMarkdown(recap(true));
+
+    expect(markdown).toContain("- **Sneezing \\*glitter\\*** · 0 votes");
+    expect(markdown).not.toContain("Voted by");
+    expect(markdown).not.toContain("- Bob ·");
+  });
+
+  it("heads each duel matchup with its own label", () => {
+    const duel = buildRecap({
+      ...recapSource(false),
+      archive: [{ ...archive[0], matchup: 1 }, { ...archive[0], matchup: 2 }],
+    });
+    const markdown = recapToMarkdown(duel);
+
+    expect(duel.rounds.map(r => r.matchup)).toEqual([1, 2]);
+    expect(markdown).toContain("## Round 1 · Matchup 1: Worst superpower?");
+    expect(markdown).toContain("## Round 1 · Matchup 2: Worst superpower?");
+  });
+});
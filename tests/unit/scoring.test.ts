@@ -0,0 +1,111 @@
+import { describe, it, expect } from "vitest";
+import {
+  defaultScoringRules,
+  explainPoints,
+  parseScoringRules,
+  scoreRound,
+  scoringPresetOf,
+  SCORING_PRESETS,
+  type ScoringRules,
+} from "../../party/scoring";
+
+const players = [
+  { id: "a", score: 500, winStreak: 2 },
+  { id: "b", score: 300, winStreak: 0 },
+  { id: "c", score: 100, winStreak: 0 },
+  { id: "d", score: 100, winStreak: 0 },
+];
+
+function score(rules: Partial<ScoringRules>, voteCounts: Record<string, number>, isFinalRound = false) {
+  return scoreRound({ rules: { ...defaultScoringRules(), ...rules }, voteCounts, players, isFinalRound });
+}
+
+function totals(breakdown: ReturnType<typeof scoreRound>) {
+  return Object.fromEntries(breakdown.map(b => [b.playerId, b.total]));
+}
+
+describe("scoreRound", () => {
+  it("matches the original scoring by default", () => {
+    expect(totals(score({}, { a: 2, b: 1 }))).toEqual({ a: 400, b: 100 });
+  });
+
+  it("leaves out players nobody voted for", () => {
+    expect(score({}, { a: 1 }).map(b => b.playerId)).toEqual(["a"]);
+    expect(score({}, {})).toEqual([]);
+  });
+
+  it("applies the tie policy to the winner bonus", () => {
+    expect(totals(score({ tiePolicy: "full" }, { a: 1, b: 1 }))).toEqual({ a: 300, b: 300 });
+    expect(totals(score({ tiePolicy: "split" }, { a: 1, b: 1 }))).toEqual({ a: 200, b: 200 });
+    expect(totals(score({ tiePolicy: "none" }, { a: 1, b: 1 }))).toEqual({ a: 100, b: 100 });
+    // A single winner always gets the whole bonus
+    expect(totals(score({ tiePolicy: "none" }, { a: 2, b: 1 }))).toEqual({ a: 400, b: 100 });
+  });
+
+  it("grows the winner bonus with the streak they were already on", () => {
+    const [a] = score({ streakMultiplier: 0.5 }, { a: 2 });
+    expect(a).toMatchObject({ winnerBonus: 200, streakBonus: 200, total: 600 });
+    const [b] = score({ streakMultiplier: 0.5 }, { b: 2 });
+    expect(b.streakBonus).toBe(0);
+  });
+
+  it("doubles everything in the final round only when enabled", () => {
+    expect(totals(score({ doubleFinalRound: true }, { a: 2, b: 1 }, true))).toEqual({ a: 800, b: 200 });
+    expect(totals(score({ doubleFinalRound: true }, { a: 2, b: 1 }, false))).toEqual({ a: 400, b: 100 });
+    expect(totals(score({ doubleFinalRound: false }, { a: 2, b: 1 }, true))).toEqual({ a: 400, b: 100 });
+  });
+
+  it("gives the catch-up bonus to every last-place player who got a vote", () => {
+    const breakdown = score({ catchUpBonus: 150 }, { b: 1, c: 1, d: 2 });
+    expect(breakdown.find(b => b.playerId === "c")?.catchUpBonus).toBe(150);
+    expect(breakdown.find(b => b.playerId === "d")).toMatchObject({ catchUpBonus: 150, total: 550 });
+    expect(breakdown.find(b => b.playerId === "b")?.catchUpBonus).toBe(0);
+  });
+
+  it("has nobody trailing while scores are level", () => {
+    const level = players.map(p => ({ ...p, score: 0 }));
+    const [a] = scoreRound({ rules: { ...defaultScoringRules(), catchUpBonus: 150 }, voteCounts: { a: 1 }, players: level, isFinalRound: false });
+    expect(a.catchUpBonus).toBe(0);
+  });
+});
+
+describe("parseScoringRules", () => {
+  const current = defaultScoringRules();
+
+  it("replaces the rules with a preset", () => {
+    expect(parseScoringRules("comeback", current)).toEqual(SCORING_PRESETS.comeback);
+    expect(parseScoringRules("nope", current)).toBeNull();
+  });
+
+  it("changes only valid fields, clamping and accepting numeric strings", () => {
+    expect(parseScoringRules({
+      pointsPerVote: "50",
+      winnerBonus: 5000,
+      streakMultiplier: -1,
+      tiePolicy: "coin-flip",
+      doubleFinalRound: "yes",
+    }, current)).toEqual({ ...current, pointsPerVote: 50, winnerBonus: 1000, streakMultiplier: 0 });
+  });
+
+  it("ignores values that aren't rules", () => {
+    expect(parseScoringRules(null, current)).toBeNull();
+    expect(parseScoringRules([1], current)).toBeNull();
+  });
+});
+
+describe("scoringPresetOf", () => {
+  it("recognises presets and reports custom rules as null", () => {
+    expect(scoringPresetOf(defaultScoringRules())).toBe("classic");
+    expect(scoringPresetOf(SCORING_PRESETS.streaks)).toBe("streaks");
+    expect(scoringPresetOf({ ...SCORING_PRESETS.classic, pointsPerVote: 50 })).toBeNull();
+  });
+});
+
+describe("explainPoints", () => {
+  it("lists each part that scored", () => {
+    const [a] = score({ streakMultiplier: 0.5, doubleFinalRound: true }, { a: 2 }, true);
+    expect(explainPoints(a)).toBe("2 votes × 100 + 200 win + 200 streak, ×2 final round");
+    const c = score({ catchUpBonus: 150 }, { a: 2, c: 1 }).find(b => b.playerId === "c")!;
+    expect(explainPoints(c)).toBe("1 vote × 100 + 150 catch-up");
+  });
+});
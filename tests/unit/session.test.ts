@@ -0,0 +1,40 @@
+import { describe, it, expect } from "vitest";
+import { createSessionToken, generateSessionSecret, verifySessionToken } from "../../party/session";
+
+describe("createSessionToken", () => {
+  it("is a 256-bit hex signature", async () => {
+    expect(await createSessionToken("secret", "room", "player")).toMatch(/^[0-9a-f]{64}$/);
+  });
+
+  it("differs per room, player and secret", async () => {
+    const token = await createSessionToken("s", "room", "p1");
+    expect(await createSessionToken("s", "room", "p2")).not.toBe(token);
+    expect(await createSessionToken("s", "other", "p1")).not.toBe(token);
+    expect(await createSessionToken("t", "room", "p1")).not.toBe(token);
+  });
+});
+
+describe("verifySessionToken", () => {
+  it("accepts the token issued for the same room and player", async () => {
+    const token = await createSessionToken("s", "room", "p1");
+    expect(await verifySessionToken("s", "room", "p1", token)).toBe(true);
+    expect(await verifySessionToken("s", "room", "p1", token.toUpperCase())).toBe(true);
+  });
+
+  it("rejects tokens for another player or secret, and anything that isn't one", async () => {
+    const token = await createSessionToken("s", "room", "p1");
+    expect(await verifySessionToken("s", "room", "p2", token)).toBe(false);
+    expect(await verifySessionToken("t", "room", "p1", token)).toBe(false);
+    for (const bad of ["", "abc", "zz".repeat(32), token.slice(0, 62)]) {
+      expect(await verifySessionToken("s", "room", "p1", bad)).toBe(false);
+    }
+  });
+});
+
+describe("generateSessionSecret", () => {
+  it("returns a fresh 256-bit hex secret", () => {
+    const secret = generateSessionSecret();
+    expect(secret).toMatch(/^[0-9a-f]{64}$/);
+    expect(generateSessionSecret()).not.toBe(secret);
+  });
+});
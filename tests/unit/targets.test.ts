@@ -0,0 +1,80 @@
+import { describe, it, expect } from "vitest";
+import { keepTargetedPrompts, namedInPrompt, planTargets, promptTargets } from "../../party/targets";
+import { buildPromptUserMessage } from "../../party/prompts";
+
+const players = [
+  { id: "a", name: "Ann" },
+  { id: "b", name: "Ben" },
+  { id: "c", name: "Cal" },
+];
+
+describe("namedInPrompt", () => {
+  it("matches whole names, possessives included", () => {
+    expect(namedInPrompt("What's in Ben's fridge?", "Ben")).toBe(true);
+    expect(namedInPrompt("BEN would never", "ben")).toBe(true);
+    expect(namedInPrompt("Benjamin's fridge", "Ben")).toBe(false);
+  });
+
+  it("matches accented and non-Latin names as whole words", () => {
+    expect(namedInPrompt("¿Qué esconde José?", "José")).toBe(true);
+    expect(namedInPrompt("Joséphine's diary", "José")).toBe(false);
+    expect(namedInPrompt("Почему Саша опаздывает?", "саша")).toBe(true);
+    expect(namedInPrompt("מה נועה מסתירה?", "נועה")).toBe(true);
+  });
+
+  it("matches the sanitized name", () => {
+    expect(namedInPrompt("Why is Bob late?", "Bob ✨")).toBe(true);
+    expect(namedInPrompt("Anyone", "🎉🎉")).toBe(false);
+  });
+});
+
+describe("promptTargets", () => {
+  it("lists every player a prompt names", () => {
+    expect(promptTargets("Ann and Cal's worst date", players)).toEqual(["a", "c"]);
+    expect(promptTargets("Nobody in particular", players)).toEqual([]);
+  });
+});
+
+describe("planTargets", () => {
+  it("picks the least-targeted players first", () => {
+    const picks = planTargets(players, { a: 3, b: 0, c: 2 }, 2);
+    expect(picks.map(p => p.id)).toEqual(["b", "b"]);
+  });
+
+  it("spreads a batch across everyone before repeating anyone", () => {
+    const picks = planTargets(players, {}, 6).map(p => p.id);
+    expect(new Set(picks.slice(0, 3))).toEqual(new Set(["a", "b", "c"]));
+    expect(new Set(picks.slice(3))).toEqual(new Set(["a", "b", "c"]));
+  });
+
+  it("never picks players whose names can't appear in a prompt", () => {
+    const picks = planTargets([...players, { id: "z", name: "🎉🎉" }], { a: 1, b: 1, c: 1 }, 1);
+    expect(picks[0].id).not.toBe("z");
+    expect(planTargets([{ id: "z", name: "🎉🎉" }], {}, 3)).toEqual([]);
+  });
+});
+
+describe("keepTargetedPrompts", () => {
+  it("keeps one prompt per intended target", () => {
+    const prompts = ["Ann's secret", "Ann's other secret", "Ben's secret", "Cal's secret"];
+    expect(keepTargetedPrompts(prompts, ["Ann", "Ben"])).toEqual(["Ann's secret", "Ben's secret"]);
+  });
+
+  it("keeps everything when there are no targets", () => {
+    expect(keepTargetedPrompts(["Ann's secret"], [])).toEqual(["Ann's secret"]);
+  });
+});
+
+describe("target instructions", () => {
+  it("tells the LLM who the prompts are about", () => {
+    const message = buildPromptUserMessage({
+      theme: "office",
+      playerNames: ["Ann", "Ben"],
+      roundNumber: 1,
+      endCondition: { type: "endless" },
+      count: 2,
+      targets: ["Ben", "Ann<b>"],
+    });
+    expect(message).toContain("<targets>Write one prompt about each of these players, in this order: Ben, Annb</targets>");
+  });
+});
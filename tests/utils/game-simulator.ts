@@ -1,5 +1,6 @@
 import { createTestServer, TestServer } from "./party-test-server";
 import { createMockPlayer, createPlayers, MockPlayer } from "./mock-player";
+import { MAX_ROUNDS, MIN_ROUNDS } from "../../party/end-condition";
 import { PHASES, type GameState } from "../../party/main";
 
 export interface GameSimulatorOptions {
@@ -73,9 +74,9 @@ export class GameSimulator {
     }
     if (
       this.options.rounds !== null &&
-      ![3, 5, 10].includes(this.options.rounds)
+      (!Number.isInteger(this.options.rounds) || this.options.rounds < MIN_ROUNDS || this.options.rounds > MAX_ROUNDS)
     ) {
-      throw new Error("Round limit must be 3, 5, 10, or null (endless)");
+      throw new Error(`Round limit must be ${MIN_ROUNDS}-${MAX_ROUNDS}, or null (endless)`);
     }
 
     // Create server and players
@@ -9,15 +9,21 @@ export interface MockPlayer {
   vote(answerId: number): void;
   chat(text: string): void;
   toggleVoyeur(): void;
+  kick(playerId: string): void;
+  ban(playerId: string): void;
   disconnect(): void;
-  reconnect(): MockConnection;
+  reconnect(): Promise<MockConnection>; // Presents the session token from the last join, like the game page
   // Admin actions
   setExactQuestion(question: string | null): void;
   setPromptGuidance(guidance: string | null): void;
+  reorderPrompts(promptIds: string[]): void;
+  discardPrompt(promptId: string): void;
   // Getters
   getLastState(): Record<string, unknown> | null;
   getLastChatMessage(): Record<string, unknown> | null;
   getAllStates(): Record<string, unknown>[];
+  getLastAdminState(): Record<string, unknown> | null;
+  getSessionToken(): string | null;
 }
 
 export function createMockPlayer(
@@ -28,6 +34,8 @@ export function createMockPlayer(
 ): MockPlayer {
   const id = playerId || crypto.randomUUID();
   let conn = server.joinPlayer(name, id, adminKey);
+  // The token arrives once the server has signed it; read it when it's first needed
+  let sessionToken: string | null = null;
 
   return {
     conn,
@@ -50,12 +58,23 @@ export function createMockPlayer(
       server.sendMessage(conn, { type: "toggle-voyeur" });
     },
 
+    kick(playerId: string): void {
+      server.sendMessage(conn, { type: "kick", playerId });
+    },
+
+    ban(playerId: string): void {
+      server.sendMessage(conn, { type: "ban", playerId });
+    },
+
     disconnect(): void {
       server.disconnect(id);
     },
 
-    reconnect(): MockConnection {
-      conn = server.joinPlayer(name, id);
+    async reconnect(): Promise<MockConnection> {
+      await server.settle();
+      sessionToken = readSessionToken(conn) ?? sessionToken;
+      conn = server.joinPlayer(name, id, undefined, sessionToken ?? undefined);
+      await server.settle();
       return conn;
     },
 
@@ -73,10 +92,17 @@ export function createMockPlayer(
       });
     },
 
+    reorderPrompts(promptIds: string[]): void {
+      server.sendMessage(conn, { type: "admin-reorder-prompts", promptIds });
+    },
+
+    discardPrompt(promptId: string): void {
+      server.sendMessage(conn, { type: "admin-discard-prompt", promptId });
+    },
+
     getLastState(): Record<string, unknown> | null {
-      const messages = conn.getAllMessages() as Record<string, unknown>[];
-      const states = messages.filter((m) => m.type === "state");
-      return states.length > 0 ? states[states.length - 1] : null;
+      const states = conn.getStates();
+      return states.length > 0 ? { ...states[states.length - 1] } : null;
     },
 
     getLastChatMessage(): Record<string, unknown> | null {
@@ -86,12 +112,27 @@ export function createMockPlayer(
     },
 
     getAllStates(): Record<string, unknown>[] {
+      return conn.getStates().map((state) => ({ ...state }));
+    },
+
+    getLastAdminState(): Record<string, unknown> | null {
       const messages = conn.getAllMessages() as Record<string, unknown>[];
-      return messages.filter((m) => m.type === "state") as Record<string, unknown>[];
+      const adminStates = messages.filter((m) => m.type === "admin-state");
+      return adminStates.length > 0 ? adminStates[adminStates.length - 1] : null;
+    },
+
+    getSessionToken(): string | null {
+      sessionToken = readSessionToken(conn) ?? sessionToken;
+      return sessionToken;
     },
   };
 }
 
+function readSessionToken(conn: MockConnection): string | null {
+  const messages = conn.getAllMessages() as { type: string; token?: string }[];
+  return messages.find((m) => m.type === "session")?.token ?? null;
+}
+
 // Helper to create multiple players at once
 export function createPlayers(
   server: TestServer,
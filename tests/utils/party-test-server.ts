@@ -1,5 +1,24 @@
 import type * as Party from "partykit/server";
 import ShtusServer from "../../party/main";
+import {
+  applyStatePatch,
+  markOwnAnswer,
+  parseServerMessage,
+  type ClientMessage,
+  type OwnAnswerMessage,
+  type ServerMessage,
+  type StateMessage,
+} from "../../party/protocol";
+
+// Every message the server sends goes through the shared validator, so any test
+// that reads messages also checks the server stuck to the protocol
+function parseSent(raw: string): ServerMessage {
+  const parsed = parseServerMessage(raw);
+  if (!parsed.ok) {
+    throw new Error(`Server sent a message outside the protocol: ${parsed.error}\n${raw.slice(0, 300)}`);
+  }
+  return parsed.message;
+}
 
 // Mock connection that simulates a WebSocket connection
 export class MockConnection implements Party.Connection {
@@ -7,6 +26,13 @@ export class MockConnection implements Party.Connection {
   messages: string[] = [];
   closed: boolean = false;
 
+  // Client-side view rebuilt from full states, patches and own-answer messages, like the game page
+  // Kept across clearMessages so patches after a clear still have a base
+  view: StateMessage | null = null;
+  ownAnswer: OwnAnswerMessage | null = null;
+  states: StateMessage[] = []; // Each view since the last clearMessages
+  syncError: string | null = null;
+
   // Party.Connection interface (cast to satisfy type, not actually used in tests)
   socket: WebSocket = null as unknown as WebSocket;
   state: unknown = undefined;
@@ -23,24 +49,59 @@ export class MockConnection implements Party.Connection {
   send(message: string): void {
     if (!this.closed) {
       this.messages.push(message);
+      this.trackState(message);
+    }
+  }
+
+  private trackState(raw: string): void {
+    const parsed = parseServerMessage(raw);
+    if (!parsed.ok) return; // Reported by getAllMessages
+    const message = parsed.message;
+    if (message.type === "state") {
+      this.view = message;
+    } else if (message.type === "state-patch") {
+      // Patches before the first full state are expected (the full state follows on connect)
+      if (!this.view) return;
+      if (message.version !== this.view.version + 1) {
+        this.syncError ??= `State patch ${message.version} does not follow version ${this.view.version}`;
+        return;
+      }
+      this.view = applyStatePatch(this.view, message);
+    } else if (message.type === "own-answer") {
+      this.ownAnswer = message;
+    } else {
+      return;
+    }
+    if (this.view) {
+      this.states.push(markOwnAnswer(this.view, this.ownAnswer));
+    }
+  }
+
+  // States as the client would render them; throws if the server skipped a version
+  getStates(): StateMessage[] {
+    if (this.syncError) {
+      throw new Error(this.syncError);
     }
+    return this.states;
   }
 
   close(): void {
     this.closed = true;
   }
 
+  // Typed loosely so tests can poke at fields; the contents are protocol-checked
   getLastMessage(): unknown {
     const last = this.messages[this.messages.length - 1];
-    return last ? JSON.parse(last) : null;
+    return last ? parseSent(last) : null;
   }
 
   getAllMessages(): unknown[] {
-    return this.messages.map((m) => JSON.parse(m));
+    return this.messages.map(parseSent);
   }
 
   clearMessages(): void {
     this.messages = [];
+    this.states = [];
   }
 }
 
@@ -119,7 +180,8 @@ class MockStorage implements Party.Storage {
   }
 
   put<T>(key: string, value: T): Promise<void> {
-    this.data.set(key, value);
+    // Real storage serializes on write; clone so later mutations don't leak into the snapshot
+    this.data.set(key, structuredClone(value));
     return Promise.resolve();
   }
 
@@ -134,15 +196,20 @@ class MockStorage implements Party.Storage {
     return Promise.resolve();
   }
 
+  // Single alarm slot, like a Durable Object (tests fire it via server.onAlarm())
+  private alarm: number | null = null;
+
   getAlarm(): Promise<number | null> {
-    return Promise.resolve(null);
+    return Promise.resolve(this.alarm);
   }
 
-  setAlarm(): Promise<void> {
+  setAlarm(scheduledTime: number | Date): Promise<void> {
+    this.alarm = typeof scheduledTime === "number" ? scheduledTime : scheduledTime.getTime();
     return Promise.resolve();
   }
 
   deleteAlarm(): Promise<void> {
+    this.alarm = null;
     return Promise.resolve();
   }
 
@@ -168,10 +235,13 @@ export interface TestServer {
   // Helper methods
   connect(playerId: string): MockConnection;
   disconnect(playerId: string): void;
-  sendMessage(conn: MockConnection, message: object): void;
-  joinPlayer(name: string, playerId?: string, adminKey?: string): MockConnection;
+  sendMessage(conn: MockConnection, message: ClientMessage): void;
+  sendRaw(conn: MockConnection, raw: string): void; // For malformed payloads
+  joinPlayer(name: string, playerId?: string, adminKey?: string, sessionToken?: string): MockConnection;
+  settle(): Promise<void>; // Waits for joins still checking or signing a session token
   getState(): unknown;
   waitForGeneration(): Promise<void>;
+  restart(): Promise<void>;
 }
 
 export function createTestServer(
@@ -179,7 +249,9 @@ export function createTestServer(
   env: Record<string, string> = {}
 ): TestServer {
   const room = new MockRoom(roomId, env);
-  const server = new ShtusServer(room as unknown as Party.Room);
+  let server = new ShtusServer(room as unknown as Party.Room);
+  // Joins are async (Web Crypto); the rest of a message is handled before onMessage returns
+  const pending = new Set<Promise<void>>();
 
   return {
     server,
@@ -200,23 +272,33 @@ export function createTestServer(
       }
     },
 
-    sendMessage(conn: MockConnection, message: object): void {
-      server.onMessage(JSON.stringify(message), conn as unknown as Party.Connection);
+    sendMessage(conn: MockConnection, message: ClientMessage): void {
+      this.sendRaw(conn, JSON.stringify(message));
     },
 
-    joinPlayer(name: string, playerId?: string, adminKey?: string): MockConnection {
+    sendRaw(conn: MockConnection, raw: string): void {
+      const result = server.onMessage(raw, conn as unknown as Party.Connection);
+      if (result) {
+        pending.add(result);
+        result.finally(() => pending.delete(result));
+      }
+    },
+
+    joinPlayer(name: string, playerId?: string, adminKey?: string, sessionToken?: string): MockConnection {
       const id = playerId || crypto.randomUUID();
       const conn = this.connect(id);
       // Clear initial messages (connected + state)
       conn.clearMessages();
-      const joinMessage: Record<string, string> = { type: "join", name };
-      if (adminKey) {
-        joinMessage.adminKey = adminKey;
-      }
-      this.sendMessage(conn, joinMessage);
+      this.sendMessage(conn, { type: "join", name, adminKey, sessionToken });
       return conn;
     },
 
+    async settle(): Promise<void> {
+      while (pending.size > 0) {
+        await Promise.all(pending);
+      }
+    },
+
     getState(): unknown {
       // Return the server's game state
       return server.state;
@@ -232,5 +314,13 @@ export function createTestServer(
       // Allow microtask queue to process (startRound is called after isGenerating=false)
       await new Promise((resolve) => setTimeout(resolve, 0));
     },
+
+    async restart(): Promise<void> {
+      // Simulate eviction/redeploy: all sockets drop and a fresh instance boots from storage
+      room.connections.clear();
+      server = new ShtusServer(room as unknown as Party.Room);
+      this.server = server;
+      await server.onStart();
+    },
   };
 }